@@ -0,0 +1,331 @@
+#!/usr/bin/env node
+/* Headless CodeParse: scans a folder with the same ignore/extension rules
+ * as the web app and writes the same artifacts, for scripts and git hooks.
+ *
+ *   codeparse <dir> --format txt,pdf,md --out dist/
+ *
+ * Exit codes: 0 ok, 1 usage or runtime error, 2 the selection exceeds the
+ * context window, 3 potential secrets need a --secrets decision. */
+
+import { openAsBlob } from 'node:fs';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_FORMATS, EXPORT_FORMATS, type ExportFormat } from '../src/services/exportFormats';
+import { buildImportGraph } from '../src/services/dependencyGraph';
+import { collectManifests } from '../src/services/repoSummary';
+import { runExport, type ExportJobFile } from '../src/services/exportPipeline';
+import { setFontReader } from '../src/services/pdfBuilder';
+import { applyProfile, parseProfileFile, type ProfileOptions } from '../src/services/profiles';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from '../src/services/promptTemplates';
+import { scanProject } from '../src/services/projectScanner';
+import { type SplitOptions } from '../src/services/splitter';
+import { duplicateReference } from '../src/utils/contentFlags';
+import { detectFileEncoding, readText } from '../src/utils/encoding';
+import { type PickedFile } from '../src/utils/folderInput';
+import { formatFileSize, formatTokenCount } from '../src/utils/format';
+import { GIT_EXCLUDE_PATH } from '../src/utils/ignoreRules';
+import { canOutline, outlineSource } from '../src/utils/outline';
+import { projectNameOf } from '../src/utils/projectInfo';
+import { scanForSecrets, type SecretFinding } from '../src/utils/secrets';
+import {
+    DEFAULT_CONTEXT_WINDOW,
+    DEFAULT_ENCODING,
+    TOKEN_ENCODINGS,
+    countTokens,
+    type TokenEncoding,
+} from '../src/utils/tokenizer';
+import { NO_TRANSFORM, transformContent } from '../src/utils/transform';
+
+const EXIT_ERROR = 1;
+const EXIT_TOO_LARGE = 2;
+const EXIT_SECRETS = 3;
+
+const USAGE = `Usage: codeparse <dir> [options]
+
+  -f, --format <list>         ${Object.keys(EXPORT_FORMATS).join(',')} (default: ${DEFAULT_FORMATS.join(',')})
+  -o, --out <dir>             output directory (default: dist)
+  -p, --profile <file>        apply a codeparse.profile.json (selection and options)
+      --tokenizer <name>      ${Object.keys(TOKEN_ENCODINGS).join(' | ')}
+      --context-window <n>    token limit of the whole export (default: ${DEFAULT_CONTEXT_WINDOW})
+      --split-tokens <n>      split into parts of at most n tokens
+      --split-kb <n>          split into parts of at most n KB
+      --strip-comments        remove comments before exporting
+      --collapse-whitespace   drop trailing whitespace and runs of blank lines
+      --outline               export TS/JS and Python files as signatures only
+      --import-graph          list the import edges between exported files
+      --summary               start with a repository summary, add per-file metadata
+      --template <id|file>    prompt template: ${BUILT_IN_TEMPLATES.map((t) => t.id).join(', ')} or a text file
+      --question <text>       fills {{question}} in the prompt template
+      --secrets <action>      fail (default), redact or keep potential secrets
+  -q, --quiet                 only print errors
+  -h, --help                  show this help`;
+
+class UsageError extends Error {}
+
+/* ── arguments ─────────────────────────────────────────────────────────── */
+
+function positiveNumber(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0) throw new UsageError(`${flag} expects a positive number`);
+    return n;
+}
+
+/* parseArgs() throws plain TypeErrors for unknown or malformed flags */
+const parseArgsOrThrow: typeof parseArgs = (config) => {
+    try {
+        return parseArgs(config);
+    } catch (e) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+};
+
+function parseCommandLine(argv: string[]) {
+    const { values, positionals } = parseArgsOrThrow({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: 'string', short: 'f' },
+            out: { type: 'string', short: 'o', default: 'dist' },
+            profile: { type: 'string', short: 'p' },
+            tokenizer: { type: 'string' },
+            'context-window': { type: 'string' },
+            'split-tokens': { type: 'string' },
+            'split-kb': { type: 'string' },
+            'strip-comments': { type: 'boolean' },
+            'collapse-whitespace': { type: 'boolean' },
+            outline: { type: 'boolean' },
+            'import-graph': { type: 'boolean' },
+            summary: { type: 'boolean' },
+            template: { type: 'string' },
+            question: { type: 'string' },
+            secrets: { type: 'string', default: 'fail' },
+            quiet: { type: 'boolean', short: 'q' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) return null;
+    if (positionals.length !== 1) throw new UsageError('Expected exactly one directory');
+
+    const formats = values.format?.split(',').map((f) => f.trim()).filter(Boolean);
+    const unknown = formats?.filter((f) => !(f in EXPORT_FORMATS));
+    if (unknown?.length) throw new UsageError(`Unknown format: ${unknown.join(', ')}`);
+    if (values.tokenizer && !(values.tokenizer in TOKEN_ENCODINGS)) {
+        throw new UsageError(`Unknown tokenizer: ${values.tokenizer}`);
+    }
+    if (!['fail', 'redact', 'keep'].includes(values.secrets)) {
+        throw new UsageError('--secrets expects fail, redact or keep');
+    }
+    if (values['split-tokens'] && values['split-kb']) {
+        throw new UsageError('Use either --split-tokens or --split-kb');
+    }
+
+    return {
+        dir: resolve(positionals[0]),
+        out: resolve(values.out),
+        profile: values.profile,
+        formats: formats as ExportFormat[] | undefined,
+        tokenizer: values.tokenizer as TokenEncoding | undefined,
+        contextWindow: positiveNumber(values['context-window'], '--context-window'),
+        splitTokens: positiveNumber(values['split-tokens'], '--split-tokens'),
+        splitKb: positiveNumber(values['split-kb'], '--split-kb'),
+        stripComments: values['strip-comments'],
+        collapseWhitespace: values['collapse-whitespace'],
+        outline: values.outline,
+        importGraph: !!values['import-graph'],
+        summary: !!values.summary,
+        template: values.template,
+        question: values.question,
+        secrets: values.secrets as 'fail' | 'redact' | 'keep',
+        quiet: !!values.quiet,
+    };
+}
+
+/* ── file system ───────────────────────────────────────────────────────── */
+
+/* Same shape as a browser folder upload: “<root name>/<relative path>”.
+   Git's metadata is skipped except for the repository-wide exclude file. */
+async function walk(root: string): Promise<PickedFile[]> {
+    const rootName = basename(root);
+    const files: PickedFile[] = [];
+
+    const add = async (full: string, rel: string) =>
+        files.push({
+            file: new File([await openAsBlob(full)], basename(full), {
+                lastModified: (await stat(full)).mtimeMs,
+            }),
+            path: `${rootName}/${rel}`,
+        });
+
+    const visit = async (dir: string, rel: string) => {
+        for (const entry of await readdir(dir, { withFileTypes: true })) {
+            const full = join(dir, entry.name);
+            const relPath = rel ? `${rel}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (entry.name !== '.git') await visit(full, relPath);
+                else if (!rel) {
+                    const exclude = join(root, GIT_EXCLUDE_PATH);
+                    if (await stat(exclude).then((s) => s.isFile(), () => false)) {
+                        await add(exclude, GIT_EXCLUDE_PATH);
+                    }
+                }
+            } else if (entry.isFile()) {
+                await add(full, relPath);
+            }
+        }
+    };
+    await visit(root, '');
+    return files;
+}
+
+/* A built-in template id, otherwise the path of a template file */
+async function readTemplate(template: string | undefined): Promise<string> {
+    if (template === undefined) return DEFAULT_TEMPLATE.body;
+    const builtIn = BUILT_IN_TEMPLATES.find((t) => t.id === template);
+    if (builtIn) return builtIn.body;
+    return readFile(template, 'utf8').catch(() => {
+        throw new UsageError(`Unknown template: ${template} (not a built-in id or a readable file)`);
+    });
+}
+
+/* The PDF fonts ship in node_modules instead of being fetched */
+const require = createRequire(import.meta.url);
+setFontReader(async (name) => new Uint8Array(await readFile(require.resolve(`dejavu-fonts-ttf/ttf/${name}`))));
+
+/* ── main ──────────────────────────────────────────────────────────────── */
+
+async function main(argv: string[]): Promise<number> {
+    const args = parseCommandLine(argv);
+    if (!args) {
+        console.log(USAGE);
+        return 0;
+    }
+    const log = (message: string) => !args.quiet && console.error(message);
+
+    if (!(await stat(args.dir).then((s) => s.isDirectory(), () => false))) {
+        throw new UsageError(`Not a directory: ${args.dir}`);
+    }
+
+    const { files } = await scanProject(await walk(args.dir));
+    const root = `${projectNameOf(files)}/`;
+
+    /* Profile first, flags on top */
+    let selected = files.filter((f) => !f.excluded);
+    let options: Partial<ProfileOptions> = {};
+    if (args.profile) {
+        const profile = parseProfileFile(await readFile(args.profile, 'utf8'));
+        const picked = applyProfile(
+            profile,
+            files.map((f) => ({ path: f.path.slice(root.length), excluded: !!f.excluded })),
+        );
+        selected = files.filter((f) => picked.has(f.path.slice(root.length)));
+        options = profile.options;
+        log(`Applied profile “${profile.name}”`);
+    }
+
+    /* A template or question asks for the prompt on top of the other formats */
+    const wantsPrompt = args.template !== undefined || args.question !== undefined;
+    const requested = args.formats ?? options.formats ?? DEFAULT_FORMATS;
+    const formats: ExportFormat[] =
+        wantsPrompt && !requested.includes('prompt') ? [...requested, 'prompt'] : requested;
+    const encoding = args.tokenizer ?? options.tokenEncoding ?? DEFAULT_ENCODING;
+    const contextWindow = args.contextWindow ?? options.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const transform = {
+        stripComments: args.stripComments ?? options.transform?.stripComments ?? NO_TRANSFORM.stripComments,
+        collapseWhitespace:
+            args.collapseWhitespace ?? options.transform?.collapseWhitespace ?? NO_TRANSFORM.collapseWhitespace,
+    };
+    const outline = args.outline ?? options.outlineAll ?? false;
+
+    let split: SplitOptions | undefined;
+    if (args.splitTokens) split = { unit: 'tokens', budget: args.splitTokens, encoding };
+    else if (args.splitKb) split = { unit: 'bytes', budget: args.splitKb * 1024, encoding };
+    else if (options.split?.enabled) {
+        const { unit, budget } = options.split;
+        split = { unit, budget: unit === 'bytes' ? budget * 1024 : budget, encoding };
+    }
+
+    const graph = args.importGraph ? await buildImportGraph(files) : undefined;
+    const selectedPaths = new Set(selected.map((f) => f.path));
+
+    /* Count what will actually be exported and look for secrets */
+    const jobFiles: ExportJobFile[] = [];
+    const findings: SecretFinding[] = [];
+    let tokens = 0;
+    for (const f of selected) {
+        const fileEncoding = f.encoding ?? (await detectFileEncoding(f.fle));
+        const text = await readText(f.fle, fileEncoding);
+        const outlined = outline && canOutline(f.path);
+        /* A copy next to its original is exported as a reference only */
+        const duplicateOf =
+            f.excluded?.kind === 'duplicate' && selectedPaths.has(f.excluded.of) ? f.excluded.of : undefined;
+        tokens += countTokens(
+            duplicateOf
+                ? duplicateReference(duplicateOf)
+                : transformContent(outlined ? outlineSource(text, f.path) : text, f.path, transform),
+            encoding,
+        );
+        const found = duplicateOf ? [] : scanForSecrets(f.path, text);
+        findings.push(...found);
+        jobFiles.push({
+            path: f.path,
+            size: f.size,
+            encoding: fileEncoding,
+            file: f.fle,
+            redactions: args.secrets === 'redact' ? found : [],
+            outline: outlined,
+            imports: graph && (graph.get(f.path) ?? []).filter((p) => selectedPaths.has(p)),
+            lastModified: f.fle.lastModified,
+            duplicateOf,
+        });
+    }
+
+    log(
+        `${jobFiles.length} files, ${formatFileSize(jobFiles.reduce((sum, f) => sum + f.size, 0))}, ` +
+            `${formatTokenCount(tokens)} / ${formatTokenCount(contextWindow)} tokens (${encoding})`,
+    );
+    if (jobFiles.length === 0) throw new Error('No files selected');
+    if (tokens > contextWindow) {
+        console.error(
+            `The selection exceeds the ${formatTokenCount(contextWindow)} token context window ` +
+                `(${formatTokenCount(tokens)} tokens)`,
+        );
+        return EXIT_TOO_LARGE;
+    }
+    if (findings.length && args.secrets === 'fail') {
+        console.error(`${findings.length} potential secret(s) found:`);
+        findings.forEach((s) => console.error(`  ${s.path}:${s.line}  ${s.label}  ${s.preview}`));
+        console.error('Re-run with --secrets redact or --secrets keep');
+        return EXIT_SECRETS;
+    }
+
+    const summary = args.summary ? { manifests: await collectManifests(files) } : undefined;
+    const prompt = formats.includes('prompt')
+        ? { template: await readTemplate(args.template), question: args.question ?? '' }
+        : undefined;
+    const artifacts = await runExport(
+        { files: jobFiles, formats, split, transform, summary, prompt },
+        () => undefined,
+    );
+
+    await mkdir(args.out, { recursive: true });
+    for (const artifact of artifacts) {
+        const target = join(args.out, artifact.filename);
+        await writeFile(target, new Uint8Array(await artifact.blob.arrayBuffer()));
+        log(`  ${target}  (${formatFileSize(artifact.blob.size)})`);
+    }
+    return 0;
+}
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (err: unknown) => {
+        console.error(`codeparse: ${err instanceof Error ? err.message : String(err)}`);
+        if (err instanceof UsageError) console.error(`\n${USAGE}`);
+        process.exitCode = EXIT_ERROR;
+    },
+);
@@ -1,158 +1,895 @@
-import React, { useCallback, useMemo, useState, type ChangeEventHandler } from 'react';
-import { Download, Upload, FileText, AlertCircle, CheckCircle2 } from 'lucide-react';
-import ignore from 'ignore';
-import { buildTxt } from '../services/txtBuilder';
-import { buildPdf } from '../services/pdfBuilder';
+import React, {
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+    type ChangeEventHandler,
+} from 'react';
+import {
+    Download,
+    Upload,
+    FileText,
+    AlertCircle,
+    CheckCircle2,
+    ClipboardCopy,
+    FileArchive,
+    FolderOpen,
+    GitBranch,
+    RefreshCw,
+    X,
+} from 'lucide-react';
+import {
+    DEFAULT_FORMATS,
+    EXPORT_FORMATS,
+    type ExportFormat,
+    type GeneratedArtifact,
+} from '../services/exportFormats';
+import { startExportJob } from '../services/exportClient';
+import type { ExportJobFile, ExportProgress } from '../services/exportPipeline';
+import { type SplitUnit } from '../services/splitter';
+import { BUNDLE_FILENAME, buildZipBundle } from '../services/zipBundle';
+import { scanProject, type UploadedFile } from '../services/projectScanner';
+import { compareWithRef, diffAgainstBase, type GitChanges } from '../services/gitChanges';
+import { buildImportGraph, dependencyClosure, type ImportGraph } from '../services/dependencyGraph';
+import { collectManifests } from '../services/repoSummary';
+import { DEFAULT_TEMPLATE } from '../services/promptTemplates';
+import {
+    PROFILE_FILENAME,
+    applyProfile,
+    loadProfiles,
+    parseProfileFile,
+    saveProfiles,
+    selectionToPatterns,
+    serializeProfile,
+    type ProfileOptions,
+    type SelectionProfile,
+} from '../services/profiles';
 import { downloadBlob } from '../utils/download';
-import { isCodeFile } from '../utils/fileFilters';
-import { buildTree, type TreeNode } from '../utils/treeBuilder';
+import { duplicateReference, isFlagged } from '../utils/contentFlags';
+import { formatExclusionReason } from '../utils/fileFilters';
+import {
+    canPickDirectory,
+    ensureReadPermission,
+    fromFileList,
+    pickDirectory,
+    readDataTransfer,
+    readDirectoryHandle,
+    type PickedFile,
+} from '../utils/folderInput';
+import { recallHandles, rememberHandles } from '../utils/handleStore';
+import { ARCHIVE_ACCEPT, isArchiveName, readArchive } from '../utils/archiveReader';
+import { openGitRepository, type GitRepository } from '../utils/gitRepository';
+import { detectFileEncoding, readText } from '../utils/encoding';
+import {
+    scanForSecrets,
+    type SecretDecision,
+    type SecretFinding,
+} from '../utils/secrets';
+import {
+    NO_TRANSFORM,
+    isTransformActive,
+    transformContent,
+    type TransformOptions,
+    type TransformSavings,
+} from '../utils/transform';
+import { canOutline, outlineSource, type FileMode } from '../utils/outline';
+import { projectNameOf } from '../utils/projectInfo';
+import { buildTree, collectFilePaths, filterTree, type TreeNode } from '../utils/treeBuilder';
+import { createGlobMatcher } from '../utils/glob';
+import {
+    EMPTY_SELECTION,
+    createSelection,
+    updateSelection,
+    withoutPaths,
+    type Selection,
+} from '../utils/selection';
+import {
+    FILTER_MODES,
+    SELECTION_PRESETS,
+    createPathFilter,
+    type FilterMode,
+    type SelectionPreset,
+} from '../utils/treeFilter';
 import FileTree from './FileTree';
-import { type FileEntry } from '../types';
-import { formatFileSize } from "../utils/format";
+import SecretReview from './SecretReview';
+import PromptTemplatePanel from './PromptTemplatePanel';
+import { formatFileSize, formatTokenCount } from "../utils/format";
+import {
+    CONTEXT_WINDOWS,
+    DEFAULT_CONTEXT_WINDOW,
+    DEFAULT_ENCODING,
+    TOKEN_ENCODINGS,
+    countTokens,
+    estimateTokensFromBytes,
+    type TokenEncoding,
+} from '../utils/tokenizer';
 
-interface UploadedFile {
-    fle: File;
-    path: string;
-    size: number;
-}
+/* Default per-part budget when splitting, per unit (tokens / KB) */
+const DEFAULT_SPLIT_BUDGET: Record<SplitUnit, number> = { tokens: 100_000, bytes: 512 };
 
-/* 50 MB limit applied AFTER filtering / selection */
-const MAX_EXPORT_SIZE = 50 * 1024 * 1024;
+/* Files are analysed in batches so the UI stays responsive meanwhile */
+const ANALYSIS_BATCH_SIZE = 50;
+
+const utf8 = new TextEncoder();
+
+/* Files as selection profiles see them: relative to the project root */
+const toProfileFiles = (files: UploadedFile[], root: string) =>
+    files.map((f) => ({ path: f.path.slice(root.length), excluded: !!f.excluded }));
 
 const CodebaseParser: React.FC = () => {
     const [files, setFiles] = useState<UploadedFile[]>([]);
-    const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
-    const [gitignoreApplied, setGitignoreApplied] = useState(false);
+    const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+    const selectedFiles = selection.paths;
+    const [ignoreSources, setIgnoreSources] = useState<string[]>([]);
+    const [rootHandles, setRootHandles] = useState<FileSystemDirectoryHandle[]>([]);
+    const [isScanning, setIsScanning] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [scanError, setScanError] = useState('');
+    const [showExcluded, setShowExcluded] = useState(false);
+    const [filterQuery, setFilterQuery] = useState('');
+    const [filterMode, setFilterMode] = useState<FilterMode>('fuzzy');
+
+    const [tokenEncoding, setTokenEncoding] = useState<TokenEncoding>(DEFAULT_ENCODING);
+    const [contextWindow, setContextWindow] = useState<number>(DEFAULT_CONTEXT_WINDOW);
+    const [tokenCounts, setTokenCounts] = useState<Map<string, number>>(new Map());
+    const [isAnalysing, setIsAnalysing] = useState(false);
+
+    const [transform, setTransform] = useState<TransformOptions>(NO_TRANSFORM);
+    const [savings, setSavings] = useState<Map<string, TransformSavings>>(new Map());
+
+    /* Outline mode: global default plus per-file overrides */
+    const [outlineAll, setOutlineAll] = useState(false);
+    const [fileModes, setFileModes] = useState<Map<string, FileMode>>(new Map());
+    const [outlineCounts, setOutlineCounts] = useState<Map<string, number>>(new Map());
+    const outlineCache = useRef<{ files: UploadedFile[]; counts: Map<string, number> }>({
+        files: [],
+        counts: new Map(),
+    });
+
+    const [secretFindings, setSecretFindings] = useState<Map<string, SecretFinding[]>>(new Map());
+    const [secretDecisions, setSecretDecisions] = useState<Map<string, SecretDecision>>(new Map());
 
     const [isProcessing, setIsProcessing] = useState(false);
-    const [txtBlob, setTxtBlob] = useState<Blob | null>(null);
-    const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
+    const [formats, setFormats] = useState<Set<ExportFormat>>(new Set(DEFAULT_FORMATS));
+    const [artifacts, setArtifacts] = useState<GeneratedArtifact[]>([]);
+    const [isZipping, setIsZipping] = useState(false);
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [exportError, setExportError] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
+    const [splitEnabled, setSplitEnabled] = useState(false);
+    const [splitUnit, setSplitUnit] = useState<SplitUnit>('tokens');
+    const [splitBudget, setSplitBudget] = useState<number>(DEFAULT_SPLIT_BUDGET.tokens);
     const [txtPreview, setTxtPreview] = useState<string>('');
 
+    /* Saved selections for the current project */
+    const [profiles, setProfiles] = useState<SelectionProfile[]>([]);
+    const [activeProfile, setActiveProfile] = useState('');
+    const [profileName, setProfileName] = useState('');
+    const [profileError, setProfileError] = useState('');
+
+    /* The uploaded .git compared with HEAD or a branch */
+    const [gitRepo, setGitRepo] = useState<GitRepository | null>(null);
+    const [gitBase, setGitBase] = useState('HEAD');
+    const [gitChanges, setGitChanges] = useState<GitChanges | null>(null);
+    const [gitError, setGitError] = useState('');
+    const [includeDiffs, setIncludeDiffs] = useState(false);
+    const [diffs, setDiffs] = useState<Map<string, { text: string; tokens: number }>>(new Map());
+    const [isDiffing, setIsDiffing] = useState(false);
+
+    /* Import edges between the uploaded files */
+    const [importGraph, setImportGraph] = useState<ImportGraph | null>(null);
+    const [dependencyDepth, setDependencyDepth] = useState(0);
+    const [includeGraph, setIncludeGraph] = useState(false);
+    const [includeSummary, setIncludeSummary] = useState(false);
+
+    /* Template and question of the “Prompt” format; the rendered prompt is
+       measured once built so it is only offered for copying when it fits */
+    const [promptTemplate, setPromptTemplate] = useState(DEFAULT_TEMPLATE.body);
+    const [promptQuestion, setPromptQuestion] = useState('');
+    const [builtPrompt, setBuiltPrompt] = useState<{ text: string; tokens: number } | null>(null);
+    const [promptCopied, setPromptCopied] = useState(false);
+
     /* ───────────────────────── helpers ───────────────────────── */
+    const outlinedPaths = useMemo(
+        () =>
+            new Set(
+                files
+                    .filter((f) => canOutline(f.path))
+                    .filter((f) => (fileModes.get(f.path) ?? (outlineAll ? 'outline' : 'full')) === 'outline')
+                    .map((f) => f.path),
+            ),
+        [files, fileModes, outlineAll],
+    );
+
+    /* Token counts of what will actually be exported (outlines and diffs included) */
+    const exportCounts = useMemo(() => {
+        const counts = new Map(tokenCounts);
+        outlineCounts.forEach((n, path) => outlinedPaths.has(path) && counts.set(path, n));
+        diffs.forEach(({ tokens }, path) => counts.set(path, (counts.get(path) ?? 0) + tokens));
+        /* A copy exported next to its original is only a reference */
+        for (const f of files) {
+            if (f.excluded?.kind === 'duplicate' && selectedFiles.has(f.excluded.of)) {
+                counts.set(f.path, countTokens(duplicateReference(f.excluded.of), tokenEncoding));
+            }
+        }
+        return counts;
+    }, [tokenCounts, outlineCounts, outlinedPaths, diffs, files, selectedFiles, tokenEncoding]);
+
     const getSelectedSize = () =>
         files
             .filter((f) => selectedFiles.has(f.path))
             .reduce((sum, f) => sum + f.size, 0);
 
-    const exportTooLarge = getSelectedSize() > MAX_EXPORT_SIZE;
+    /* Token budget applied AFTER filtering / selection. Files that have not
+       been tokenised yet fall back to a size-based estimate. */
+    const getSelectedTokens = () =>
+        files
+            .filter((f) => selectedFiles.has(f.path))
+            .reduce(
+                (sum, f) =>
+                    sum +
+                    (exportCounts.get(f.path) ?? estimateTokensFromBytes(f.size, tokenEncoding)),
+                0,
+            );
+
+    const exportTooLarge = getSelectedTokens() > contextWindow;
+    const selectedOutlined = [...selectedFiles].filter((p) => outlinedPaths.has(p)).length;
 
-    /* ─────────────────── folder upload & filtering ────────────── */
-    const scanFolder = useCallback(
-        async (fileList: FileList): Promise<UploadedFile[]> => {
-            const arr = Array.from(fileList);
-
-            /* Detect root folder name (first segment before the slash) */
-            const firstFile = arr[0] as File & { webkitRelativePath?: string };
-            const firstPath = firstFile.webkitRelativePath ?? '';
-            const baseDir = firstPath ? firstPath.split('/')[0] : '';
-
-            /* Read every .gitignore we find */
-            const igFileCandidates = arr.filter((f) => f.name === '.gitignore');
-            let ig: ReturnType<typeof ignore> | null = null;
-            if (igFileCandidates.length) {
-                ig = ignore();
-                for (const f of igFileCandidates) {
-                    ig.add(await f.text());
+    /* What the content transforms remove from the selection */
+    const selectedSavings = useMemo(
+        () =>
+            [...savings.entries()]
+                .filter(([path]) => selectedFiles.has(path))
+                .reduce(
+                    (sum, [, s]) => ({ bytes: sum.bytes + s.bytes, tokens: sum.tokens + s.tokens }),
+                    { bytes: 0, tokens: 0 },
+                ),
+        [savings, selectedFiles],
+    );
+
+    /* Findings in the current selection and how many still need a decision */
+    const selectedFindings = useMemo(
+        () =>
+            [...secretFindings.entries()]
+                .filter(([path]) => selectedFiles.has(path))
+                .flatMap(([, found]) => found),
+        [secretFindings, selectedFiles],
+    );
+    const unreviewedSecrets = selectedFindings.filter((f) => !secretDecisions.has(f.id)).length;
+
+    /* Folders opened in an earlier visit can be re-scanned right away */
+    useEffect(() => {
+        let cancelled = false;
+        recallHandles().then((handles) => !cancelled && setRootHandles(handles));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    /* ──────────────── token counting & secret scan ────────────── */
+    /* Counts reflect the transformed text, i.e. what will be exported */
+    useEffect(() => {
+        let cancelled = false;
+        setTokenCounts(new Map());
+        setSavings(new Map());
+        /* Excluded files are only estimated – they may be huge or binary */
+        const countable = files.filter((f) => !f.excluded);
+        if (countable.length === 0) {
+            setIsAnalysing(false);
+            return;
+        }
+
+        setIsAnalysing(true);
+        (async () => {
+            const counts = new Map<string, number>();
+            const saved = new Map<string, TransformSavings>();
+            const findings = new Map<string, SecretFinding[]>();
+            for (let i = 0; i < countable.length; i += ANALYSIS_BATCH_SIZE) {
+                for (const f of countable.slice(i, i + ANALYSIS_BATCH_SIZE)) {
+                    const text = await readText(f.fle, f.encoding ?? 'utf-8').catch(() => '');
+                    if (cancelled) return;
+                    const exported = transformContent(text, f.path, transform);
+                    const tokens = countTokens(exported, tokenEncoding);
+                    counts.set(f.path, tokens);
+                    if (exported !== text) {
+                        saved.set(f.path, {
+                            bytes: utf8.encode(text).length - utf8.encode(exported).length,
+                            tokens: countTokens(text, tokenEncoding) - tokens,
+                        });
+                    }
+                    const found = scanForSecrets(f.path, text);
+                    if (found.length) findings.set(f.path, found);
                 }
+                setTokenCounts(new Map(counts));
+                setSavings(new Map(saved));
             }
-            setGitignoreApplied(Boolean(ig));
+            /* Keep findings of manually re-included files scanned on demand */
+            setSecretFindings((prev) => {
+                const next = new Map([...prev].filter(([path]) => !counts.has(path)));
+                findings.forEach((found, path) => next.set(path, found));
+                return next;
+            });
+            setIsAnalysing(false);
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [files, tokenEncoding, transform]);
+
+    /* Outlined files are counted separately, and only once per setting */
+    useEffect(() => {
+        let cancelled = false;
+        if (outlineCache.current.files !== files) outlineCache.current = { files, counts: new Map() };
+        const cache = outlineCache.current.counts;
+        const keyOf = (path: string) =>
+            `${tokenEncoding}|${transform.stripComments}|${transform.collapseWhitespace}|${path}`;
+
+        (async () => {
+            for (const f of files) {
+                if (!outlinedPaths.has(f.path) || cache.has(keyOf(f.path))) continue;
+                const text = await readText(f.fle, f.encoding ?? 'utf-8').catch(() => '');
+                if (cancelled) return;
+                const exported = transformContent(outlineSource(text, f.path), f.path, transform);
+                cache.set(keyOf(f.path), countTokens(exported, tokenEncoding));
+            }
+            setOutlineCounts(
+                new Map(
+                    [...outlinedPaths]
+                        .filter((path) => cache.has(keyOf(path)))
+                        .map((path) => [path, cache.get(keyOf(path))!]),
+                ),
+            );
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [files, outlinedPaths, tokenEncoding, transform]);
 
-            /* Build cleaned list */
-            const clean: UploadedFile[] = [];
+    /* ───────────────────────── imports ────────────────────────── */
+    useEffect(() => {
+        let cancelled = false;
+        setImportGraph(null);
+        if (files.length === 0) return;
 
-            for (const file of arr) {
-                const f = file as File & { webkitRelativePath?: string };
+        buildImportGraph(files).then(
+            (graph) => !cancelled && setImportGraph(graph),
+            () => !cancelled && setImportGraph(new Map()),
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [files]);
 
-                const originalPath = f.webkitRelativePath ?? f.name;
-                const normalized = originalPath.replaceAll('\\', '/');
+    /* ─────────────────────── git changes ──────────────────────── */
+    useEffect(() => {
+        let cancelled = false;
+        setGitChanges(null);
+        setGitError('');
+        if (!gitRepo) return;
 
-                /* Path relative to project root (for ignore matching) */
-                const relPath = baseDir
-                    ? normalized.split('/').slice(1).join('/')
-                    : normalized;
+        compareWithRef(gitRepo, files, gitBase).then(
+            (changes) => !cancelled && setGitChanges(changes),
+            (e) => !cancelled && setGitError(e instanceof Error ? e.message : String(e)),
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [gitRepo, files, gitBase]);
 
-                if (ig?.ignores(relPath)) continue;      // .gitignore exclusion
-                if (!isCodeFile(f.name)) continue;       // fallback extension filter
+    /* Diffs of modified files, redacted like the export they end up in */
+    useEffect(() => {
+        let cancelled = false;
+        setDiffs(new Map());
+        if (!gitRepo || !gitChanges || !includeDiffs) {
+            setIsDiffing(false);
+            return;
+        }
 
-                clean.push({ fle: f, path: normalized, size: f.size });
+        setIsDiffing(true);
+        (async () => {
+            const next = new Map<string, { text: string; tokens: number }>();
+            for (const f of files) {
+                if (!gitChanges.baseBlobs.has(f.path)) continue;
+                const encoding = f.encoding ?? (await detectFileEncoding(f.fle));
+                const redactions = (secretFindings.get(f.path) ?? []).filter(
+                    (s) => secretDecisions.get(s.id) === 'redact',
+                );
+                const text = await diffAgainstBase(gitRepo, gitChanges, f, encoding, redactions).catch(
+                    () => '',
+                );
+                if (cancelled) return;
+                if (text) next.set(f.path, { text, tokens: countTokens(text, tokenEncoding) });
             }
+            setDiffs(next);
+            setIsDiffing(false);
+        })();
 
-            /* Sort for nicer UI */
-            clean.sort((a, b) => a.path.localeCompare(b.path));
-            return clean;
-        },
-        [],
-    );
+        return () => {
+            cancelled = true;
+        };
+    }, [gitRepo, gitChanges, includeDiffs, files, secretFindings, secretDecisions, tokenEncoding]);
+
+    /* ───────────────────────── prompt ─────────────────────────── */
+    useEffect(() => {
+        let cancelled = false;
+        setBuiltPrompt(null);
+        setPromptCopied(false);
+        const artifact = artifacts.find((a) => a.format === 'prompt');
+        if (!artifact) return;
+
+        artifact.blob.text().then(
+            (text) => !cancelled && setBuiltPrompt({ text, tokens: countTokens(text, tokenEncoding) }),
+            () => undefined,
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [artifacts, tokenEncoding]);
+
+    /* ─────────────────── folder upload & filtering ────────────── */
+    /* Options missing from a profile keep their current values */
+    const applyProfileOptions = useCallback((options: Partial<ProfileOptions>) => {
+        if (options.formats) setFormats(new Set(options.formats));
+        if (options.tokenEncoding) setTokenEncoding(options.tokenEncoding);
+        if (options.contextWindow) setContextWindow(options.contextWindow);
+        if (options.split) {
+            setSplitEnabled(options.split.enabled);
+            setSplitUnit(options.split.unit);
+            setSplitBudget(options.split.budget);
+        }
+        if (options.transform) setTransform(options.transform);
+        if (options.outlineAll !== undefined) {
+            setOutlineAll(options.outlineAll);
+            setFileModes(new Map());
+        }
+    }, []);
 
-    const handleFolderUpload: ChangeEventHandler<HTMLInputElement> = useCallback(
-        async (e) => {
-            const fl = e.target.files;
-            if (!fl || fl.length === 0) return;
+    /* Load a freshly read project. A re-scan keeps the choices made for
+       files that still exist; new files follow the profile or the defaults. */
+    const loadFiles = useCallback(
+        async (picked: PickedFile[], rescan: boolean) => {
+            setScanError('');
+            if (picked.length === 0) return;
+            setIsScanning(true);
+            try {
+                const { files: clean, ignoreSources: sources } = await scanProject(picked);
+                setIgnoreSources(sources);
+                /* A damaged .git must not keep the project from loading */
+                setGitRepo(await openGitRepository(picked).catch(() => null));
 
-            const clean = await scanFolder(fl);
+                /* The project's last used profile replaces the default selection */
+                const project = projectNameOf(clean);
+                const stored = loadProfiles(project);
+                const active = stored.profiles.find((p) => p.name === stored.active);
+                const root = project ? `${project}/` : '';
+                const defaults = new Set(
+                    active
+                        ? [...applyProfile(active, toProfileFiles(clean, root))].map((p) => root + p)
+                        : clean.filter((f) => !f.excluded).map((f) => f.path),
+                );
 
-            setFiles(clean);
-            setSelectedFiles(new Set(clean.map((f) => f.path)));
-            setTxtBlob(null);
-            setPdfBlob(null);
-            setTxtPreview('');
+                const known = new Set(rescan ? files.map((f) => f.path) : []);
+
+                setFiles(clean);
+                setSelection((prev) =>
+                    createSelection(
+                        clean
+                            .map((f) => f.path)
+                            .filter((p) => (known.has(p) ? prev.paths.has(p) : defaults.has(p))),
+                    ),
+                );
+                setArtifacts([]);
+                setTxtPreview('');
+                if (rescan) {
+                    /* Findings are offsets into the text they were found in;
+                       those of edited or removed files would redact the wrong ranges */
+                    const before = new Map(files.map((f) => [f.path, f]));
+                    const unchanged = new Set(
+                        clean
+                            .filter((f) => {
+                                const old = before.get(f.path);
+                                return (
+                                    old &&
+                                    old.size === f.size &&
+                                    old.fle.lastModified === f.fle.lastModified &&
+                                    old.hash === f.hash
+                                );
+                            })
+                            .map((f) => f.path),
+                    );
+                    setSecretFindings((prev) => new Map([...prev].filter(([path]) => unchanged.has(path))));
+                    setSecretDecisions(
+                        (prev) =>
+                            new Map(
+                                [...prev].filter(([id]) => unchanged.has(id.slice(0, id.lastIndexOf(':')))),
+                            ),
+                    );
+                    return;
+                }
+
+                if (active) applyProfileOptions(active.options);
+                setProfiles(stored.profiles);
+                setActiveProfile(active?.name ?? '');
+                setProfileName(active?.name ?? '');
+                setProfileError('');
+                setSecretFindings(new Map());
+                setSecretDecisions(new Map());
+                setFileModes(new Map());
+                setGitBase('HEAD');
+            } catch (e) {
+                setScanError(e instanceof Error ? e.message : String(e));
+            } finally {
+                setIsScanning(false);
+            }
         },
-        [scanFolder],
+        [files, applyProfileOptions],
     );
 
+    /* Root folders we can read again later (File System Access API only) */
+    const keepRoots = (handles: FileSystemDirectoryHandle[]) => {
+        setRootHandles(handles);
+        void rememberHandles(handles);
+    };
+
+    const handleFolderUpload: ChangeEventHandler<HTMLInputElement> = async (e) => {
+        const fl = e.target.files;
+        if (!fl || fl.length === 0) return;
+        keepRoots([]);       // an <input> snapshot cannot be re-read
+        await loadFiles(fromFileList(fl), false);
+    };
+
+    /* A .zip / .tar(.gz) is unpacked in memory and scanned like a folder */
+    const openArchive = async (archive: File) => {
+        keepRoots([]);
+        setIsScanning(true);
+        try {
+            await loadFiles(await readArchive(archive), false);
+        } catch (err) {
+            setScanError(`${archive.name}: ${err instanceof Error ? err.message : String(err)}`);
+            setIsScanning(false);
+        }
+    };
+
+    const handleArchiveUpload: ChangeEventHandler<HTMLInputElement> = async (e) => {
+        const archive = e.target.files?.[0];
+        e.target.value = '';
+        if (archive) await openArchive(archive);
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        try {
+            const { files: dropped, handles } = await readDataTransfer(e.dataTransfer);
+            if (dropped.length === 1 && isArchiveName(dropped[0].path)) {
+                await openArchive(dropped[0].file);
+                return;
+            }
+            keepRoots(handles);
+            await loadFiles(dropped, false);
+        } catch (err) {
+            setScanError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const openDirectory = async () => {
+        try {
+            const handle = await pickDirectory();
+            if (!handle) return;
+            keepRoots([handle]);
+            setIsScanning(true);
+            await loadFiles(await readDirectoryHandle(handle), false);
+        } catch (err) {
+            setScanError(err instanceof Error ? err.message : String(err));
+            setIsScanning(false);
+        }
+    };
+
+    /* Read the remembered folders again to pick up edits */
+    const rescan = async () => {
+        try {
+            for (const handle of rootHandles) {
+                if (!(await ensureReadPermission(handle))) {
+                    setScanError(`Permission to read “${handle.name}” was denied`);
+                    return;
+                }
+            }
+            setIsScanning(true);
+            const picked = (await Promise.all(rootHandles.map((h) => readDirectoryHandle(h)))).flat();
+            await loadFiles(picked, files.length > 0);
+        } catch (err) {
+            setScanError(err instanceof Error ? err.message : String(err));
+            setIsScanning(false);
+        }
+    };
+
+    /* ───────────────────── selection profiles ─────────────────── */
+    const projectName = useMemo(() => projectNameOf(files), [files]);
+    const projectRoot = projectName ? `${projectName}/` : '';
+
+    const storeProfiles = (next: SelectionProfile[], active: string) => {
+        setProfiles(next);
+        setActiveProfile(active);
+        setProfileError(
+            saveProfiles(projectName, { active: active || undefined, profiles: next })
+                ? ''
+                : 'Profiles could not be saved in this browser (storage unavailable or full)',
+        );
+    };
+
+    const currentOptions = (): ProfileOptions => ({
+        formats: [...formats],
+        tokenEncoding,
+        contextWindow,
+        split: { enabled: splitEnabled, unit: splitUnit, budget: splitBudget },
+        transform,
+        outlineAll,
+    });
+
+    const selectProfile = (profile: SelectionProfile) => {
+        const selected = applyProfile(profile, toProfileFiles(files, projectRoot));
+        setSelection(createSelection([...selected].map((p) => projectRoot + p)));
+        applyProfileOptions(profile.options);
+        setProfileName(profile.name);
+    };
+
+    const chooseProfile = (name: string) => {
+        const profile = profiles.find((p) => p.name === name);
+        storeProfiles(profiles, profile ? name : '');
+        if (profile) selectProfile(profile);
+    };
+
+    /* Save the current selection and settings under `profileName` */
+    const saveCurrentProfile = () => {
+        const name = profileName.trim();
+        if (!name) return;
+        const relSelected = new Set(
+            [...selectedFiles].filter((p) => p.startsWith(projectRoot)).map((p) => p.slice(projectRoot.length)),
+        );
+        const profile: SelectionProfile = {
+            name,
+            ...selectionToPatterns(toProfileFiles(files, projectRoot), relSelected),
+            options: currentOptions(),
+        };
+        storeProfiles([...profiles.filter((p) => p.name !== name), profile], name);
+    };
+
+    const deleteProfile = () => {
+        storeProfiles(profiles.filter((p) => p.name !== activeProfile), '');
+        setProfileName('');
+    };
+
+    const exportProfile = () => {
+        const profile = profiles.find((p) => p.name === activeProfile);
+        if (!profile) return;
+        downloadBlob(new Blob([serializeProfile(profile)], { type: 'application/json' }), PROFILE_FILENAME);
+    };
+
+    const importProfile: ChangeEventHandler<HTMLInputElement> = async (e) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';        // allow importing the same file again
+        if (!file) return;
+        try {
+            const profile = parseProfileFile(await file.text());
+            storeProfiles([...profiles.filter((p) => p.name !== profile.name), profile], profile.name);
+            selectProfile(profile);
+        } catch (err) {
+            setProfileError(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
     /* ───────────────────── selection helpers ──────────────────── */
-    const toggleFile = (path: string) => {
-        setSelectedFiles((prev) => {
+    const toggleFile = (path: string) =>
+        setSelection((prev) => updateSelection(prev, [path], !prev.paths.has(path)));
+
+    /* Per-file choice in the tree: full, outline or excluded */
+    const setFileMode = (path: string, mode: FileMode | 'excluded') => {
+        setSelection((prev) => updateSelection(prev, [path], mode !== 'excluded'));
+        if (mode !== 'excluded') setFileModes((prev) => new Map(prev).set(path, mode));
+    };
+
+    const toggleOutlineAll = (enabled: boolean) => {
+        setOutlineAll(enabled);
+        setFileModes(new Map());    // the global switch overrides per-file choices
+    };
+
+    const toggleFolder = (paths: string[], select: boolean) =>
+        setSelection((prev) => updateSelection(prev, paths, select));
+
+    /* A node plus everything it imports, `dependencyDepth` levels deep (0 = all) */
+    const selectWithDependencies = (paths: string[]) => {
+        if (importGraph) toggleFolder(dependencyClosure(importGraph, paths, dependencyDepth), true);
+    };
+
+    const selectAll = () =>
+        setSelection(
+            createSelection(files.filter((f) => showExcluded || !f.excluded).map((f) => f.path)),
+        );
+    const deselectAll = () => setSelection(EMPTY_SELECTION);
+
+    const toggleFormat = (format: ExportFormat) => {
+        setFormats((prev) => {
             const next = new Set(prev);
-            if (next.has(path)) next.delete(path);
-            else next.add(path);
+            if (next.has(format)) next.delete(format);
+            else next.add(format);
             return next;
         });
     };
 
-    const toggleFolder = (paths: string[], select: boolean) => {
-        setSelectedFiles((prev) => {
-            const next = new Set(prev);
-            paths.forEach((p) => {
-                if (select) next.add(p);
-                else next.delete(p);
-            });
+    const decideSecrets = (ids: string[], decision: SecretDecision) => {
+        setSecretDecisions((prev) => {
+            const next = new Map(prev);
+            ids.forEach((id) => next.set(id, decision));
             return next;
         });
     };
 
-    const selectAll = () => setSelectedFiles(new Set(files.map((f) => f.path)));
-    const deselectAll = () => setSelectedFiles(new Set());
-
     /* ───────────────────────── documents ──────────────────────── */
     const generateDocuments = async () => {
-        if (exportTooLarge || selectedFiles.size === 0) return;
+        if (
+            exportTooLarge ||
+            selectedFiles.size === 0 ||
+            formats.size === 0 ||
+            unreviewedSecrets > 0
+        ) return;
 
         setIsProcessing(true);
+        setExportError('');
 
-        const entries: FileEntry[] = files
-            .filter((f) => selectedFiles.has(f.path))
-            .map((f) => ({
+        const jobFiles: ExportJobFile[] = [];
+        const lateFindings = new Map<string, SecretFinding[]>();
+        for (const f of files.filter((f) => selectedFiles.has(f.path))) {
+            /* Manually re-included files were never sniffed or scanned */
+            const encoding = f.encoding ?? (await detectFileEncoding(f.fle));
+            /* A copy next to its original is exported as a reference only */
+            const duplicateOf =
+                f.excluded?.kind === 'duplicate' && selectedFiles.has(f.excluded.of) ? f.excluded.of : undefined;
+            if (f.excluded && !duplicateOf && !secretFindings.has(f.path)) {
+                const found = scanForSecrets(f.path, await readText(f.fle, encoding));
+                if (found.length) lateFindings.set(f.path, found);
+            }
+
+            jobFiles.push({
                 path: f.path,
                 size: f.size,
-                getText: () => f.fle.text(),
-            }));
+                encoding,
+                file: f.fle,
+                redactions: (secretFindings.get(f.path) ?? []).filter(
+                    (s) => secretDecisions.get(s.id) === 'redact',
+                ),
+                outline: outlinedPaths.has(f.path),
+                diff: diffs.has(f.path) ? { base: gitBase, text: diffs.get(f.path)!.text } : undefined,
+                /* Only edges between exported files */
+                imports:
+                    includeGraph && importGraph
+                        ? (importGraph.get(f.path) ?? []).filter((p) => selectedFiles.has(p))
+                        : undefined,
+                lastModified: f.fle.lastModified,
+                duplicateOf,
+            });
+        }
 
-        /* TXT first – quick and gives preview */
-        const { blob: txtB, text } = await buildTxt(entries);
-        setTxtBlob(txtB);
-        setTxtPreview(text);
+        /* New findings must be reviewed before anything is exported */
+        if (lateFindings.size) {
+            setSecretFindings((prev) => new Map([...prev, ...lateFindings]));
+            setIsProcessing(false);
+            return;
+        }
 
-        /* Then PDF */
-        const pdfB = await buildPdf(entries);
-        setPdfBlob(pdfB);
+        /* Building runs in a worker; the controller backs the Cancel button */
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+            const built = await startExportJob(
+                {
+                    files: jobFiles,
+                    formats: [...formats],
+                    /* Optional chunking – budget is entered in tokens or KB */
+                    split:
+                        splitEnabled && splitBudget > 0
+                            ? {
+                                  unit: splitUnit,
+                                  budget: splitUnit === 'bytes' ? splitBudget * 1024 : splitBudget,
+                                  encoding: tokenEncoding,
+                              }
+                            : undefined,
+                    transform,
+                    summary: includeSummary ? { manifests: await collectManifests(files) } : undefined,
+                    prompt: formats.has('prompt')
+                        ? { template: promptTemplate, question: promptQuestion }
+                        : undefined,
+                },
+                { signal: controller.signal, onProgress: setProgress },
+            );
+            setArtifacts(built);
+            setTxtPreview(built.find((a) => a.preview !== undefined)?.preview ?? '');
+        } catch (e) {
+            if (!(e instanceof DOMException && e.name === 'AbortError')) {
+                setExportError(e instanceof Error ? e.message : String(e));
+            }
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+            setIsProcessing(false);
+        }
+    };
+
+    const cancelGeneration = () => abortRef.current?.abort();
 
-        setIsProcessing(false);
+    const copyPrompt = async () => {
+        if (!builtPrompt) return;
+        try {
+            await navigator.clipboard.writeText(builtPrompt.text);
+            setPromptCopied(true);
+        } catch (e) {
+            setExportError(`Could not copy the prompt: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    };
+
+    const downloadZip = async () => {
+        setIsZipping(true);
+        try {
+            downloadBlob(await buildZipBundle(artifacts), BUNDLE_FILENAME);
+        } finally {
+            setIsZipping(false);
+        }
     };
 
     /* ───────────────────────── derived data ───────────────────── */
-    const tree: TreeNode[] = useMemo(() => buildTree(files), [files]);
+    const excludedFiles = useMemo(() => files.filter((f) => f.excluded), [files]);
+    /* Duplicates, generated, minified and vendored files stay in the tree, unticked */
+    const hiddenFiles = useMemo(
+        () => (showExcluded ? [] : excludedFiles.filter((f) => !isFlagged(f.excluded))),
+        [excludedFiles, showExcluded],
+    );
+    const tree: TreeNode[] = useMemo(() => {
+        const hidden = new Set(hiddenFiles);
+        return buildTree(files.filter((f) => !hidden.has(f)));
+    }, [files, hiddenFiles]);
+
+    /* Search box: the tree shows matching files only */
+    const pathFilter = useMemo(() => createPathFilter(filterQuery, filterMode), [filterQuery, filterMode]);
+    const visibleTree = useMemo(() => {
+        const { match } = pathFilter;
+        return match ? filterTree(tree, (n) => match(n.path.slice(projectRoot.length))) : tree;
+    }, [tree, pathFilter, projectRoot]);
+    const matchedPaths = useMemo(() => visibleTree.flatMap(collectFilePaths), [visibleTree]);
+
+    /* Folder checkboxes only count files the tree shows: drop selected files
+       hidden by the filter or by “Show excluded” being off */
+    const visibleFolderCounts = useMemo(() => {
+        let hidden: string[] = [];
+        if (pathFilter.match) {
+            const shown = new Set(matchedPaths);
+            hidden = [...selection.paths].filter((p) => !shown.has(p));
+        } else {
+            hidden = hiddenFiles.filter((f) => selection.paths.has(f.path)).map((f) => f.path);
+        }
+        return withoutPaths(selection.folderCounts, hidden);
+    }, [selection, pathFilter, matchedPaths, hiddenFiles]);
+
+    /* Presets deselect every file in the tree that matches their patterns */
+    const applyPreset = (preset: SelectionPreset) => {
+        const matches = createGlobMatcher(preset.patterns);
+        toggleFolder(
+            tree.flatMap(collectFilePaths).filter((p) => matches(p.slice(projectRoot.length))),
+            false,
+        );
+    };
+
+    /* Review preset: exactly the files changed since the compared ref */
+    const changedPaths = useMemo(
+        () => files.filter((f) => !f.excluded && gitChanges?.status.has(f.path)).map((f) => f.path),
+        [files, gitChanges],
+    );
+    const changeCounts = useMemo(() => {
+        const counts = { modified: 0, added: 0, untracked: 0 };
+        gitChanges?.status.forEach((status) => counts[status]++);
+        return counts;
+    }, [gitChanges]);
 
     /* ───────────────────────────── UI ─────────────────────────── */
     return (
@@ -169,13 +906,24 @@ const CodebaseParser: React.FC = () => {
 
                 {/* ─────────── Upload ─────────── */}
                 <section className="bg-white rounded-xl shadow-lg p-8 mb-8">
-                    <div className="border-2 border-dashed border-blue-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors">
+                    <div
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setIsDragging(true);
+                        }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={handleDrop}
+                        className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-blue-400 transition-colors ${
+                            isDragging ? 'border-blue-500 bg-blue-50' : 'border-blue-300'
+                        }`}
+                    >
                         <Upload className="mx-auto h-16 w-16 text-blue-400 mb-4" />
                         <h3 className="text-xl font-semibold text-gray-700 mb-2">
                             Upload Your Project Folder
                         </h3>
                         <p className="text-gray-500 mb-4">
-                            Export size limit: 50 MB (enforced after filtering)
+                            Drop one or more folders (or a .zip / .tar.gz) here, or pick one below. Export limit:
+                            the selected model context window (enforced after filtering)
                         </p>
                         <input
                             type="file"
@@ -187,12 +935,54 @@ const CodebaseParser: React.FC = () => {
                             className="hidden"
                             id="folder-upload"
                         />
-                        <label
-                            htmlFor="folder-upload"
-                            className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 cursor-pointer transition-colors"
-                        >
-                            Select Folder
-                        </label>
+                        <div className="flex flex-wrap justify-center gap-3">
+                            {canPickDirectory() ? (
+                                <button
+                                    onClick={openDirectory}
+                                    disabled={isScanning}
+                                    className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                                >
+                                    <FolderOpen className="h-5 w-5 mr-2" />
+                                    Select Folder
+                                </button>
+                            ) : (
+                                <label
+                                    htmlFor="folder-upload"
+                                    className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 cursor-pointer transition-colors"
+                                >
+                                    Select Folder
+                                </label>
+                            )}
+                            <input
+                                type="file"
+                                accept={ARCHIVE_ACCEPT}
+                                onChange={handleArchiveUpload}
+                                className="hidden"
+                                id="archive-upload"
+                            />
+                            <label
+                                htmlFor="archive-upload"
+                                className="inline-flex items-center px-6 py-3 bg-white border border-blue-600 text-blue-700 font-medium rounded-lg hover:bg-blue-50 cursor-pointer transition-colors"
+                            >
+                                <FileArchive className="h-5 w-5 mr-2" />
+                                Open Archive
+                            </label>
+                            {rootHandles.length > 0 && (
+                                <button
+                                    onClick={rescan}
+                                    disabled={isScanning}
+                                    title={`Read ${rootHandles.map((h) => h.name).join(', ')} again`}
+                                    className="inline-flex items-center px-6 py-3 bg-white border border-blue-600 text-blue-700 font-medium rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                                >
+                                    <RefreshCw className={`h-5 w-5 mr-2 ${isScanning ? 'animate-spin' : ''}`} />
+                                    {files.length > 0 ? 'Re-scan' : `Re-open ${rootHandles.map((h) => h.name).join(', ')}`}
+                                </button>
+                            )}
+                        </div>
+                        {isScanning && <p className="mt-3 text-sm text-gray-500">Scanning…</p>}
+                        {scanError && (
+                            <p className="mt-3 text-sm text-red-600">Could not read the folder: {scanError}</p>
+                        )}
                     </div>
                 </section>
 
@@ -203,7 +993,17 @@ const CodebaseParser: React.FC = () => {
                             <h3 className="text-xl font-semibold text-gray-800">
                                 Select Files to Include
                             </h3>
-                            <div className="flex gap-3">
+                            <div className="flex gap-3 items-center">
+                                {excludedFiles.length > 0 && (
+                                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                                        <input
+                                            type="checkbox"
+                                            checked={showExcluded}
+                                            onChange={(e) => setShowExcluded(e.target.checked)}
+                                        />
+                                        Show excluded ({excludedFiles.length})
+                                    </label>
+                                )}
                                 <button
                                     onClick={selectAll}
                                     className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
@@ -228,40 +1028,398 @@ const CodebaseParser: React.FC = () => {
                 </span>
                             </div>
                             <p className="text-blue-700">
-                                Selected: {selectedFiles.size} files&nbsp;|&nbsp;Size:{' '}
-                                {formatFileSize(getSelectedSize())} /{' '}
-                                {formatFileSize(MAX_EXPORT_SIZE)}
+                                Selected: {selectedFiles.size} files
+                                {selectedOutlined > 0 && ` (${selectedOutlined} outlined)`}
+                                &nbsp;|&nbsp;Size:{' '}
+                                {formatFileSize(getSelectedSize())}&nbsp;|&nbsp;Tokens:{' '}
+                                {formatTokenCount(getSelectedTokens())} /{' '}
+                                {formatTokenCount(contextWindow)}
+                                {isAnalysing && ' (counting…)'}
                             </p>
-                            {gitignoreApplied && (
+                            <div className="flex flex-wrap gap-4 mt-2 text-sm text-blue-800">
+                                <label className="flex items-center gap-2">
+                                    Tokenizer
+                                    <select
+                                        value={tokenEncoding}
+                                        onChange={(e) => setTokenEncoding(e.target.value as TokenEncoding)}
+                                        className="border rounded px-2 py-1 bg-white"
+                                    >
+                                        {(Object.keys(TOKEN_ENCODINGS) as TokenEncoding[]).map((enc) => (
+                                            <option key={enc} value={enc}>
+                                                {TOKEN_ENCODINGS[enc].label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    Context window
+                                    <select
+                                        value={contextWindow}
+                                        onChange={(e) => setContextWindow(Number(e.target.value))}
+                                        className="border rounded px-2 py-1 bg-white"
+                                    >
+                                        {CONTEXT_WINDOWS.map((w) => (
+                                            <option key={w.tokens} value={w.tokens}>
+                                                {w.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+                            {ignoreSources.length > 0 && (
                                 <p className="text-xs text-blue-600 mt-1">
-                                    .gitignore rules were applied automatically
+                                    Ignore rules were applied automatically from{' '}
+                                    {ignoreSources.join(', ')}
                                 </p>
                             )}
+                            {excludedFiles.length > 0 && (
+                                <details className="text-xs text-blue-600 mt-1">
+                                    <summary className="cursor-pointer">
+                                        {excludedFiles.length} files excluded by default
+                                        (tick them in the tree to include them anyway)
+                                    </summary>
+                                    <ul className="mt-1 max-h-40 overflow-y-auto font-mono">
+                                        {excludedFiles.map((f) => (
+                                            <li key={f.path} className="break-all">
+                                                {f.path}{' '}
+                                                <span className="text-blue-400">
+                                                    ← {formatExclusionReason(f.excluded!)}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </details>
+                            )}
+                        </div>
+
+                        {/* Saved selections for this project */}
+                        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                            Profile
+                            <select
+                                value={activeProfile}
+                                onChange={(e) => chooseProfile(e.target.value)}
+                                className="border rounded px-2 py-1 bg-white"
+                                aria-label="Selection profile"
+                            >
+                                <option value="">— none —</option>
+                                {profiles.map((p) => (
+                                    <option key={p.name} value={p.name}>
+                                        {p.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                value={profileName}
+                                onChange={(e) => setProfileName(e.target.value)}
+                                placeholder="Profile name"
+                                className="w-40 border rounded px-2 py-1"
+                            />
+                            <button
+                                onClick={saveCurrentProfile}
+                                disabled={!profileName.trim()}
+                                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                            >
+                                Save
+                            </button>
+                            <button
+                                onClick={deleteProfile}
+                                disabled={!activeProfile}
+                                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 transition-colors"
+                            >
+                                Delete
+                            </button>
+                            <button
+                                onClick={exportProfile}
+                                disabled={!activeProfile}
+                                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 transition-colors"
+                            >
+                                Export
+                            </button>
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                onChange={importProfile}
+                                className="hidden"
+                                id="profile-import"
+                            />
+                            <label
+                                htmlFor="profile-import"
+                                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 cursor-pointer transition-colors"
+                            >
+                                Import
+                            </label>
+                            {profileError && <span className="text-xs text-red-600">{profileError}</span>}
                         </div>
 
-                        <div className="max-h-96 overflow-y-auto border rounded-lg">
-                            <FileTree
-                                nodes={tree}
-                                selected={selectedFiles}
-                                onToggleFile={toggleFile}
-                                onToggleFolder={toggleFolder}
+                        {/* Filter & bulk selection */}
+                        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="search"
+                                value={filterQuery}
+                                onChange={(e) => setFilterQuery(e.target.value)}
+                                placeholder={FILTER_MODES[filterMode].placeholder}
+                                className="flex-1 min-w-48 border rounded px-2 py-1 font-mono"
+                                aria-label="Filter files"
                             />
+                            <select
+                                value={filterMode}
+                                onChange={(e) => setFilterMode(e.target.value as FilterMode)}
+                                className="border rounded px-2 py-1 bg-white"
+                                aria-label="Filter mode"
+                            >
+                                {(Object.keys(FILTER_MODES) as FilterMode[]).map((mode) => (
+                                    <option key={mode} value={mode}>
+                                        {FILTER_MODES[mode].label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => toggleFolder(matchedPaths, true)}
+                                disabled={!pathFilter.match || matchedPaths.length === 0}
+                                className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 transition-colors"
+                            >
+                                Select matches{pathFilter.match && ` (${matchedPaths.length})`}
+                            </button>
+                            <button
+                                onClick={() => toggleFolder(matchedPaths, false)}
+                                disabled={!pathFilter.match || matchedPaths.length === 0}
+                                className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                            >
+                                Deselect matches
+                            </button>
+                            {Object.values(SELECTION_PRESETS).map((preset) => (
+                                <button
+                                    key={preset.label}
+                                    onClick={() => applyPreset(preset)}
+                                    title={preset.patterns.join(' ')}
+                                    className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                            <label className="flex items-center gap-1" title="Used by the tree's dependency button (0 = all levels)">
+                                Dependency depth
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={dependencyDepth}
+                                    onChange={(e) => setDependencyDepth(Math.max(0, Number(e.target.value)))}
+                                    className="w-16 border rounded px-2 py-1"
+                                />
+                                {!importGraph && <span className="text-xs text-gray-500">(reading imports…)</span>}
+                            </label>
+                            {pathFilter.error && (
+                                <span className="w-full text-xs text-red-600">{pathFilter.error}</span>
+                            )}
                         </div>
 
-                        {/* Error if over 50 MB */}
+                        {/* Git-aware selection */}
+                        {gitRepo && (
+                            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                                <GitBranch className="h-4 w-4 text-orange-600" />
+                                Changed since
+                                <select
+                                    value={gitBase}
+                                    onChange={(e) => setGitBase(e.target.value)}
+                                    className="border rounded px-2 py-1 bg-white"
+                                    aria-label="Compare with git ref"
+                                >
+                                    <option value="HEAD">HEAD{gitRepo.head && ` (${gitRepo.head})`}</option>
+                                    {gitRepo.branches.map((branch) => (
+                                        <option key={branch} value={branch}>
+                                            {branch}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => setSelection(createSelection(changedPaths))}
+                                    disabled={changedPaths.length === 0}
+                                    className="px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50 transition-colors"
+                                >
+                                    Select changed only{gitChanges && ` (${changedPaths.length})`}
+                                </button>
+                                <label className="flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeDiffs}
+                                        onChange={(e) => setIncludeDiffs(e.target.checked)}
+                                    />
+                                    Include diffs (TXT, MD)
+                                </label>
+                                <span className="text-xs text-gray-500">
+                                    {gitChanges
+                                        ? `${changeCounts.modified} modified, ${changeCounts.added} added, ` +
+                                          `${changeCounts.untracked} untracked, ${gitChanges.deleted.length} deleted`
+                                        : !gitError && 'comparing…'}
+                                    {isDiffing && ' (diffing…)'}
+                                </span>
+                                {gitError && <span className="text-xs text-red-600">{gitError}</span>}
+                            </div>
+                        )}
+
+                        <FileTree
+                            nodes={visibleTree}
+                            selected={selectedFiles}
+                            folderCounts={visibleFolderCounts}
+                            tokenCounts={exportCounts}
+                            savings={savings}
+                            outlined={outlinedPaths}
+                            gitStatus={gitChanges?.status}
+                            onSetMode={setFileMode}
+                            onToggleFile={toggleFile}
+                            onToggleFolder={toggleFolder}
+                            onSelectDependencies={importGraph ? selectWithDependencies : undefined}
+                        />
+
+                        {/* Error if over the context window */}
                         {exportTooLarge && (
                             <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2">
                                 <AlertCircle className="h-5 w-5" />
-                                Selected files exceed the 50 MB export limit. Trim your
-                                selection or update .gitignore.
+                                Selected files exceed the {formatTokenCount(contextWindow)} token
+                                context window. Trim your selection or pick a larger window.
+                            </div>
+                        )}
+
+                        {selectedFindings.length > 0 && (
+                            <SecretReview
+                                findings={selectedFindings}
+                                decisions={secretDecisions}
+                                onDecide={decideSecrets}
+                            />
+                        )}
+
+                        {unreviewedSecrets > 0 && (
+                            <div className="mt-4 p-3 bg-amber-50 text-amber-800 rounded-lg flex items-center gap-2">
+                                <AlertCircle className="h-5 w-5" />
+                                Review {unreviewedSecrets} potential secret
+                                {unreviewedSecrets === 1 ? '' : 's'} (keep or redact) before
+                                generating documents.
                             </div>
                         )}
 
-                        <div className="mt-6 text-center">
+                        <div className="mt-6 flex justify-center gap-4 text-sm text-gray-700">
+                            Formats:
+                            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                                <label key={format} className="flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={formats.has(format)}
+                                        onChange={() => toggleFormat(format)}
+                                    />
+                                    {EXPORT_FORMATS[format].label}
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="mt-3 flex justify-center items-center gap-3 text-sm text-gray-700">
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={splitEnabled}
+                                    onChange={(e) => setSplitEnabled(e.target.checked)}
+                                />
+                                Split into parts of at most
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={splitBudget}
+                                disabled={!splitEnabled}
+                                onChange={(e) => setSplitBudget(Number(e.target.value))}
+                                className="w-28 border rounded px-2 py-1 disabled:opacity-50"
+                            />
+                            <select
+                                value={splitUnit}
+                                disabled={!splitEnabled}
+                                onChange={(e) => {
+                                    const unit = e.target.value as SplitUnit;
+                                    setSplitUnit(unit);
+                                    setSplitBudget(DEFAULT_SPLIT_BUDGET[unit]);
+                                }}
+                                className="border rounded px-2 py-1 bg-white disabled:opacity-50"
+                            >
+                                <option value="tokens">tokens</option>
+                                <option value="bytes">KB</option>
+                            </select>
+                            <span className="text-xs text-gray-500">(JSON / JSONL stay whole)</span>
+                        </div>
+
+                        <div className="mt-3 flex justify-center items-center gap-4 text-sm text-gray-700">
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={outlineAll}
+                                    onChange={(e) => toggleOutlineAll(e.target.checked)}
+                                />
+                                Outline all (signatures only, TS/JS &amp; Python)
+                            </label>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={includeGraph}
+                                    onChange={(e) => setIncludeGraph(e.target.checked)}
+                                />
+                                Import graph
+                            </label>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={includeSummary}
+                                    onChange={(e) => setIncludeSummary(e.target.checked)}
+                                />
+                                Repository summary
+                            </label>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={transform.stripComments}
+                                    onChange={(e) =>
+                                        setTransform((t) => ({ ...t, stripComments: e.target.checked }))
+                                    }
+                                />
+                                Strip comments
+                            </label>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={transform.collapseWhitespace}
+                                    onChange={(e) =>
+                                        setTransform((t) => ({ ...t, collapseWhitespace: e.target.checked }))
+                                    }
+                                />
+                                Collapse blank lines &amp; trailing whitespace
+                            </label>
+                            {isTransformActive(transform) && (
+                                <span className="text-xs text-green-700">
+                                    saves {formatFileSize(selectedSavings.bytes)} /{' '}
+                                    {formatTokenCount(selectedSavings.tokens)} tokens
+                                    {isAnalysing && ' (counting…)'}
+                                </span>
+                            )}
+                        </div>
+
+                        {formats.has('prompt') && (
+                            <PromptTemplatePanel
+                                template={promptTemplate}
+                                question={promptQuestion}
+                                onTemplateChange={setPromptTemplate}
+                                onQuestionChange={setPromptQuestion}
+                            />
+                        )}
+
+                        <div className="mt-4 text-center">
                             <button
                                 onClick={generateDocuments}
                                 disabled={
-                                    isProcessing || selectedFiles.size === 0 || exportTooLarge
+                                    isProcessing ||
+                                    isAnalysing ||
+                                    isDiffing ||
+                                    (includeGraph && !importGraph) ||
+                                    selectedFiles.size === 0 ||
+                                    formats.size === 0 ||
+                                    exportTooLarge ||
+                                    unreviewedSecrets > 0
                                 }
                                 className="inline-flex items-center px-8 py-3 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                             >
@@ -272,32 +1430,91 @@ const CodebaseParser: React.FC = () => {
                                 )}
                                 {isProcessing ? 'Processing…' : 'Generate Documents'}
                             </button>
+                            {isProcessing && (
+                                <button
+                                    onClick={cancelGeneration}
+                                    className="inline-flex items-center ml-3 px-4 py-3 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+                                >
+                                    <X className="h-5 w-5 mr-1" />
+                                    Cancel
+                                </button>
+                            )}
                         </div>
+
+                        {/* Per-file progress reported by the export worker */}
+                        {progress && (
+                            <div className="mt-4">
+                                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-indigo-600 transition-all"
+                                        style={{
+                                            width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+                                        }}
+                                    />
+                                </div>
+                                <p className="mt-1 text-xs text-gray-600 break-all">
+                                    {progress.phase}: {progress.done} / {progress.total} files (
+                                    {formatFileSize(progress.bytesDone)} /{' '}
+                                    {formatFileSize(progress.bytesTotal)}) – {progress.path}
+                                </p>
+                            </div>
+                        )}
+
+                        {exportError && (
+                            <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2">
+                                <AlertCircle className="h-5 w-5" />
+                                Export failed: {exportError}
+                            </div>
+                        )}
                     </section>
                 )}
 
                 {/* ─────────── Results ─────────── */}
-                {txtBlob && pdfBlob && (
+                {artifacts.length > 0 && (
                     <section className="bg-white rounded-xl shadow-lg p-8">
-                        <header className="flex justify-between items-center mb-6">
-                            <h3 className="text-xl font-semibold text-gray-800">
+                        <header className="mb-6">
+                            <h3 className="text-xl font-semibold text-gray-800 mb-4">
                                 Generated Documents
                             </h3>
-                            <div className="flex gap-3">
+                            <div className="flex flex-wrap gap-3">
                                 <button
-                                    onClick={() => downloadBlob(txtBlob, 'codebase.txt')}
-                                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                                    onClick={downloadZip}
+                                    disabled={isZipping}
+                                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
                                 >
-                                    <Download className="h-4 w-4 mr-2" />
-                                    Download TXT
-                                </button>
-                                <button
-                                    onClick={() => downloadBlob(pdfBlob, 'codebase.pdf')}
-                                    className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-                                >
-                                    <Download className="h-4 w-4 mr-2" />
-                                    Download PDF
+                                    <FileArchive className="h-4 w-4 mr-2" />
+                                    {isZipping ? 'Zipping…' : 'Download all (ZIP)'}
                                 </button>
+                                {artifacts.map((artifact) => (
+                                    <button
+                                        key={artifact.filename}
+                                        onClick={() => downloadBlob(artifact.blob, artifact.filename)}
+                                        className={`inline-flex items-center px-4 py-2 text-white rounded-lg transition-colors ${
+                                            EXPORT_FORMATS[artifact.format].buttonClass
+                                        }`}
+                                    >
+                                        <Download className="h-4 w-4 mr-2" />
+                                        Download {EXPORT_FORMATS[artifact.format].label}
+                                        {artifact.part &&
+                                            ` (part ${artifact.part.index}/${artifact.part.total})`}
+                                    </button>
+                                ))}
+                                {builtPrompt && (
+                                    <button
+                                        onClick={copyPrompt}
+                                        disabled={builtPrompt.tokens > contextWindow}
+                                        title={
+                                            builtPrompt.tokens > contextWindow
+                                                ? `The prompt exceeds the ${formatTokenCount(contextWindow)} token context window – download it instead`
+                                                : undefined
+                                        }
+                                        className="inline-flex items-center px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        <ClipboardCopy className="h-4 w-4 mr-2" />
+                                        {promptCopied ? 'Copied!' : 'Copy prompt'} (~
+                                        {formatTokenCount(builtPrompt.tokens)} tokens)
+                                    </button>
+                                )}
                             </div>
                         </header>
 
@@ -305,14 +1522,14 @@ const CodebaseParser: React.FC = () => {
                             <CheckCircle2 className="h-5 w-5 text-green-600" />
                             <span className="text-green-800">
                 Successfully processed {selectedFiles.size} files (
-                                {formatFileSize(getSelectedSize())})
+                                {formatFileSize(getSelectedSize())}, ~
+                                {formatTokenCount(getSelectedTokens())} tokens)
               </span>
                         </div>
 
                         <div className="max-h-96 overflow-y-auto bg-gray-50 rounded-lg p-4">
               <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">
-                {txtPreview.substring(0, 2000)}
-                  {txtPreview.length > 2000 && '\n\n… [truncated]'}
+                {txtPreview}
               </pre>
                         </div>
                     </section>
@@ -5,140 +5,377 @@ import {
     File as FileIcon,
     Folder as FolderIcon,
     FolderOpen as FolderOpenIcon,
+    Network,
 } from 'lucide-react';
-import { type TreeNode, collectFilePaths } from '../utils/treeBuilder';
-import { formatFileSize } from "../utils/format";
+import {
+    type FlatRow,
+    type TreeNode,
+    collectFilePaths,
+    flattenTree,
+    sumByFolder,
+} from '../utils/treeBuilder';
+import { formatFileSize, formatTokenCount } from "../utils/format";
+import { formatExclusionReason } from '../utils/fileFilters';
+import { canOutline, type FileMode } from '../utils/outline';
+import { type TransformSavings } from '../utils/transform';
+import { GIT_STATUS_LETTERS, type GitStatus } from '../services/gitChanges';
 
 interface FileTreeProps {
     nodes: TreeNode[];
     selected: Set<string>;
+    folderCounts: Map<string, number>;        // selected files below each folder shown in `nodes`
+    tokenCounts: Map<string, number>;
+    savings: Map<string, TransformSavings>;   // per file, when comment stripping etc. is on
+    outlined: Set<string>;                    // files exported as signatures only
+    gitStatus?: Map<string, GitStatus>;       // changed files, when the upload has a .git
+    onSetMode: (path: string, mode: FileMode | 'excluded') => void;
     onToggleFile: (path: string) => void;
     onToggleFolder: (paths: string[], select: boolean) => void;
+    onSelectDependencies?: (paths: string[]) => void;   // set once the import graph is known
 }
 
-/* ---------- change #1: TreeRowProps is now self-contained ---------- */
 interface TreeRowProps {
-    node: TreeNode;
-    depth: number;
-    selected: Set<string>;
-    onToggleFile: (path: string) => void;
-    onToggleFolder: (paths: string[], select: boolean) => void;
+    row: FlatRow;
+    isOpen: boolean;
+    isFocused: boolean;
+    checked: boolean;
+    indeterminate: boolean;
+    tokenTotal: number;
+    saved: TransformSavings;
+    mode: FileMode | 'excluded';
+    change?: GitStatus;
+    onFocus: () => void;
+    onToggleOpen: () => void;
+    onToggleSelect: () => void;
+    onSetMode: (path: string, mode: FileMode | 'excluded') => void;
+    onSelectDependencies?: () => void;
 }
 
 const INDENT_PX = 20;
 
+const CHANGE_CLASSES: Record<GitStatus, string> = {
+    modified: 'text-amber-600',
+    added: 'text-green-600',
+    untracked: 'text-teal-600',
+};
+
+/* Rows have a fixed height so only the visible window has to be rendered */
+const ROW_HEIGHT = 30;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN_ROWS = 10;
+
 const FileTree: React.FC<FileTreeProps> = ({
                                                nodes,
                                                selected,
+                                               folderCounts,
+                                               tokenCounts,
+                                               savings,
+                                               outlined,
+                                               gitStatus,
+                                               onSetMode,
                                                onToggleFile,
                                                onToggleFolder,
-                                           }) => (
-    <div>
-        {nodes.map((n) => (
-            <TreeRow
-                key={n.path}
-                node={n}
-                depth={0}
-                selected={selected}
-                onToggleFile={onToggleFile}
-                onToggleFolder={onToggleFolder}
-            />
-        ))}
-    </div>
-);
+                                               onSelectDependencies,
+                                           }) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [focused, setFocused] = useState(0);
+    const [scrollTop, setScrollTop] = useState(0);
+    const viewportRef = useRef<HTMLDivElement | null>(null);
+
+    const rows = useMemo(() => flattenTree(nodes, collapsed), [nodes, collapsed]);
+
+    /* Folder totals are computed once per tree, not once per row */
+    const fileTotals = useMemo(() => sumByFolder(nodes, () => 1), [nodes]);
+    const tokenTotals = useMemo(
+        () => sumByFolder(nodes, (f) => tokenCounts.get(f.path) ?? 0),
+        [nodes, tokenCounts],
+    );
+    const savedTotals = useMemo(
+        () => ({
+            bytes: sumByFolder(nodes, (f) => savings.get(f.path)?.bytes ?? 0),
+            tokens: sumByFolder(nodes, (f) => savings.get(f.path)?.tokens ?? 0),
+        }),
+        [nodes, savings],
+    );
+
+    const focusedIndex = Math.min(focused, Math.max(0, rows.length - 1));
+
+    /* Keep the focused row in view while navigating with the keyboard */
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+        const top = focusedIndex * ROW_HEIGHT;
+        if (top < viewport.scrollTop) viewport.scrollTop = top;
+        else if (top + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+            viewport.scrollTop = top + ROW_HEIGHT - viewport.clientHeight;
+        }
+    }, [focusedIndex]);
+
+    const setOpen = (path: string, open: boolean) =>
+        setCollapsed((prev) => {
+            if (prev.has(path) === !open) return prev;
+            const next = new Set(prev);
+            if (open) next.delete(path);
+            else next.add(path);
+            return next;
+        });
+
+    const isChecked = (node: TreeNode) =>
+        node.type === 'file'
+            ? selected.has(node.path)
+            : (folderCounts.get(node.path) ?? 0) === fileTotals.get(node.path);
+
+    const toggleSelect = (node: TreeNode) => {
+        if (node.type === 'file') onToggleFile(node.path);
+        else onToggleFolder(collectFilePaths(node), !isChecked(node));
+    };
+
+    const selectDependencies = (node: TreeNode) =>
+        onSelectDependencies?.(node.type === 'file' ? [node.path] : collectFilePaths(node));
+
+    /* Arrow keys move and open/close folders, Space toggles, Home/End jump,
+       D adds the focused node's imports */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.target instanceof HTMLSelectElement || !rows.length) return;
+        const row = rows[focusedIndex];
+        const isFolder = row.node.type === 'folder';
+        const open = isFolder && !collapsed.has(row.node.path);
+        const pageRows = Math.floor(VIEWPORT_HEIGHT / ROW_HEIGHT);
+
+        const moves: Record<string, () => void> = {
+            ArrowDown: () => setFocused(Math.min(rows.length - 1, focusedIndex + 1)),
+            ArrowUp: () => setFocused(Math.max(0, focusedIndex - 1)),
+            PageDown: () => setFocused(Math.min(rows.length - 1, focusedIndex + pageRows)),
+            PageUp: () => setFocused(Math.max(0, focusedIndex - pageRows)),
+            Home: () => setFocused(0),
+            End: () => setFocused(rows.length - 1),
+            ArrowRight: () => {
+                if (isFolder && !open) setOpen(row.node.path, true);
+                else if (open) setFocused(focusedIndex + 1);
+            },
+            ArrowLeft: () => {
+                if (open) setOpen(row.node.path, false);
+                else if (row.parent !== -1) setFocused(row.parent);
+            },
+            ' ': () => toggleSelect(row.node),
+            Enter: () => (isFolder ? setOpen(row.node.path, !open) : toggleSelect(row.node)),
+            d: () => selectDependencies(row.node),
+        };
+
+        /* Let checkboxes handle their own Space */
+        if (e.key === ' ' && e.target instanceof HTMLInputElement) return;
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        move();
+    };
+
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const last = Math.min(
+        rows.length,
+        Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS,
+    );
+
+    return (
+        <div
+            ref={viewportRef}
+            role="tree"
+            aria-multiselectable
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className="overflow-y-auto border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+            style={{ height: Math.min(VIEWPORT_HEIGHT, rows.length * ROW_HEIGHT + 2) }}
+        >
+            <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+                {rows.slice(first, last).map((row, offset) => {
+                    const index = first + offset;
+                    const { node } = row;
+                    const count = folderCounts.get(node.path) ?? 0;
+                    return (
+                        <div
+                            key={node.path}
+                            style={{ position: 'absolute', top: index * ROW_HEIGHT, left: 0, right: 0 }}
+                        >
+                            <TreeRow
+                                row={row}
+                                isOpen={!collapsed.has(node.path)}
+                                isFocused={index === focusedIndex}
+                                checked={isChecked(node)}
+                                indeterminate={node.type === 'folder' && count > 0 && !isChecked(node)}
+                                tokenTotal={
+                                    node.type === 'file'
+                                        ? tokenCounts.get(node.path) ?? 0
+                                        : tokenTotals.get(node.path) ?? 0
+                                }
+                                saved={
+                                    node.type === 'file'
+                                        ? savings.get(node.path) ?? { bytes: 0, tokens: 0 }
+                                        : {
+                                              bytes: savedTotals.bytes.get(node.path) ?? 0,
+                                              tokens: savedTotals.tokens.get(node.path) ?? 0,
+                                          }
+                                }
+                                mode={
+                                    !selected.has(node.path)
+                                        ? 'excluded'
+                                        : outlined.has(node.path)
+                                          ? 'outline'
+                                          : 'full'
+                                }
+                                change={gitStatus?.get(node.path)}
+                                onFocus={() => setFocused(index)}
+                                onToggleOpen={() => setOpen(node.path, collapsed.has(node.path))}
+                                onToggleSelect={() => toggleSelect(node)}
+                                onSetMode={onSetMode}
+                                onSelectDependencies={
+                                    onSelectDependencies && (() => selectDependencies(node))
+                                }
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
 
 export default FileTree;
 
 const TreeRow: React.FC<TreeRowProps> = ({
-                                             node,
-                                             depth,
-                                             selected,
-                                             onToggleFile,
-                                             onToggleFolder,
+                                             row,
+                                             isOpen,
+                                             isFocused,
+                                             checked,
+                                             indeterminate,
+                                             tokenTotal,
+                                             saved,
+                                             mode,
+                                             change,
+                                             onFocus,
+                                             onToggleOpen,
+                                             onToggleSelect,
+                                             onSetMode,
+                                             onSelectDependencies,
                                          }) => {
-    const [isOpen, setIsOpen] = useState<boolean>(true);
+    const { node, depth } = row;
+    const excludedReason = node.excluded ? formatExclusionReason(node.excluded) : undefined;
     const checkboxRef = useRef<HTMLInputElement | null>(null);
 
-    const descendantPaths = useMemo(() => collectFilePaths(node), [node]);
-    const selectedCount = useMemo(
-        () => descendantPaths.filter((p) => selected.has(p)).length,
-        [descendantPaths, selected],
-    );
-    const allSelected = selectedCount === descendantPaths.length;
-    const someSelected = selectedCount > 0 && !allSelected;
-
     useEffect(() => {
-        if (checkboxRef.current) checkboxRef.current.indeterminate = someSelected;
-    }, [someSelected]);
-
-    const handleFolderToggle = () => {
-        onToggleFolder(descendantPaths, !allSelected);
-    };
-    const handleFileToggle = () => onToggleFile(node.path);
+        if (checkboxRef.current) checkboxRef.current.indeterminate = indeterminate;
+    }, [indeterminate]);
 
     return (
-        <>
-            <div
-                className={`flex items-center py-1 px-2 hover:bg-gray-50 ${
-                    node.type === 'folder' && 'font-medium'
-                }`}
-                style={{ paddingLeft: depth * INDENT_PX }}
-            >
-                {node.type === 'folder' ? (
-                    <button
-                        className="mr-1 text-gray-500 hover:text-gray-700"
-                        onClick={() => setIsOpen(!isOpen)}
-                        aria-label={isOpen ? 'Collapse folder' : 'Expand folder'}
-                    >
-                        {isOpen ? (
-                            <ChevronDown className="h-4 w-4" />
-                        ) : (
-                            <ChevronRight className="h-4 w-4" />
-                        )}
-                    </button>
-                ) : (
-                    <span className="mr-1" style={{ width: 16 }} />
-                )}
-
-                <input
-                    ref={checkboxRef}
-                    type="checkbox"
-                    className="mr-2 h-4 w-4 text-blue-600"
-                    checked={allSelected}
-                    onChange={node.type === 'folder' ? handleFolderToggle : handleFileToggle}
-                />
-
-                {node.type === 'folder' ? (
-                    isOpen ? (
-                        <FolderOpenIcon className="h-4 w-4 text-amber-600 mr-2" />
+        <div
+            role="treeitem"
+            aria-level={depth + 1}
+            aria-expanded={node.type === 'folder' ? isOpen : undefined}
+            aria-selected={checked}
+            onMouseDown={onFocus}
+            className={`flex items-center px-2 hover:bg-gray-50 ${
+                node.type === 'folder' && 'font-medium'
+            } ${isFocused ? 'bg-blue-50' : ''}`}
+            style={{ height: ROW_HEIGHT, paddingLeft: depth * INDENT_PX }}
+        >
+            {node.type === 'folder' ? (
+                <button
+                    tabIndex={-1}
+                    className="mr-1 text-gray-500 hover:text-gray-700"
+                    onClick={onToggleOpen}
+                    aria-label={isOpen ? 'Collapse folder' : 'Expand folder'}
+                >
+                    {isOpen ? (
+                        <ChevronDown className="h-4 w-4" />
                     ) : (
-                        <FolderIcon className="h-4 w-4 text-amber-600 mr-2" />
-                    )
+                        <ChevronRight className="h-4 w-4" />
+                    )}
+                </button>
+            ) : (
+                <span className="mr-1" style={{ width: 16 }} />
+            )}
+
+            <input
+                ref={checkboxRef}
+                type="checkbox"
+                tabIndex={-1}
+                className="mr-2 h-4 w-4 text-blue-600"
+                checked={checked}
+                onChange={onToggleSelect}
+            />
+
+            {node.type === 'folder' ? (
+                isOpen ? (
+                    <FolderOpenIcon className="h-4 w-4 text-amber-600 mr-2" />
                 ) : (
-                    <FileIcon className="h-4 w-4 text-gray-500 mr-2" />
-                )}
+                    <FolderIcon className="h-4 w-4 text-amber-600 mr-2" />
+                )
+            ) : (
+                <FileIcon className="h-4 w-4 text-gray-500 mr-2" />
+            )}
 
-                <span className="flex-1 break-all text-gray-800">{node.name}</span>
-                {node.type === 'file' && (
-                    <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">
+            <span
+                className={`flex-1 truncate ${
+                    excludedReason ? 'text-gray-400 italic' : 'text-gray-800'
+                }`}
+                title={excludedReason ? `Excluded: ${excludedReason}` : node.path}
+            >
+                {node.name}
+            </span>
+            {onSelectDependencies && (
+                <button
+                    tabIndex={-1}
+                    className="ml-2 text-gray-400 hover:text-indigo-600"
+                    onClick={onSelectDependencies}
+                    title="Select with dependencies (D)"
+                    aria-label={`Select ${node.path} with its dependencies`}
+                >
+                    <Network className="h-4 w-4" />
+                </button>
+            )}
+            {change && (
+                <span
+                    className={`text-xs font-semibold ml-2 ${CHANGE_CLASSES[change]}`}
+                    title={`${change} since the compared git ref`}
+                >
+            {GIT_STATUS_LETTERS[change]}
+          </span>
+            )}
+            {excludedReason && (
+                <span className="text-xs text-gray-400 ml-2 whitespace-nowrap">
+            {excludedReason}
+          </span>
+            )}
+            {saved.bytes > 0 && (
+                <span className="text-xs text-green-600 ml-2 whitespace-nowrap">
+            −{formatFileSize(saved.bytes)} / −{formatTokenCount(saved.tokens)} tok
+          </span>
+            )}
+            {tokenTotal > 0 && (
+                <span className="text-xs text-indigo-500 ml-2 whitespace-nowrap">
+            {formatTokenCount(tokenTotal)} tok
+          </span>
+            )}
+            {node.type === 'file' && (
+                <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">
             {formatFileSize(node.size ?? 0)}
           </span>
-                )}
-            </div>
-
-            {node.type === 'folder' &&
-                isOpen &&
-                (node.children ?? []).map((child) => (
-                    /* ---------- change #2: nodes={[]}" removed ---------- */
-                    <TreeRow
-                        key={child.path}
-                        node={child}
-                        depth={depth + 1}
-                        selected={selected}
-                        onToggleFile={onToggleFile}
-                        onToggleFolder={onToggleFolder}
-                    />
-                ))}
-        </>
+            )}
+            {node.type === 'file' && (
+                <select
+                    tabIndex={-1}
+                    value={mode}
+                    onChange={(e) => onSetMode(node.path, e.target.value as FileMode | 'excluded')}
+                    className="ml-2 text-xs border rounded px-1 bg-white text-gray-600"
+                    aria-label={`Export mode for ${node.path}`}
+                >
+                    <option value="full">full</option>
+                    <option value="outline" disabled={!canOutline(node.path)}>
+                        outline
+                    </option>
+                    <option value="excluded">excluded</option>
+                </select>
+            )}
+        </div>
     );
 };
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import {
+    BUILT_IN_TEMPLATES,
+    PROMPT_PLACEHOLDERS,
+    loadPromptTemplates,
+    savePromptTemplates,
+    type PromptTemplate,
+} from '../services/promptTemplates';
+
+interface PromptTemplatePanelProps {
+    template: string;
+    question: string;
+    onTemplateChange: (template: string) => void;
+    onQuestionChange: (question: string) => void;
+}
+
+/* Picks, edits and saves the template of the “Prompt” format */
+const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({
+    template,
+    question,
+    onTemplateChange,
+    onQuestionChange,
+}) => {
+    const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+    const [selectedId, setSelectedId] = useState(
+        () => BUILT_IN_TEMPLATES.find((t) => t.body === template)?.id ?? '',
+    );
+    const [name, setName] = useState('');
+    const [error, setError] = useState('');
+
+    const all = [...BUILT_IN_TEMPLATES, ...userTemplates];
+    const selected = all.find((t) => t.id === selectedId);
+
+    const pick = (id: string) => {
+        const picked = all.find((t) => t.id === id);
+        setSelectedId(id);
+        setError('');
+        if (picked) {
+            onTemplateChange(picked.body);
+            if (!picked.builtIn) setName(picked.name);
+        }
+    };
+
+    const persist = (next: PromptTemplate[]) => {
+        setUserTemplates(next);
+        setError(savePromptTemplates(next) ? '' : 'Templates could not be stored in this browser');
+    };
+
+    /* Saving under an existing name overwrites that template */
+    const save = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const existing = userTemplates.find((t) => t.name === trimmed);
+        const saved: PromptTemplate = { id: existing?.id ?? `user-${Date.now()}`, name: trimmed, body: template };
+        persist(existing ? userTemplates.map((t) => (t === existing ? saved : t)) : [...userTemplates, saved]);
+        setSelectedId(saved.id);
+    };
+
+    const remove = () => {
+        persist(userTemplates.filter((t) => t.id !== selectedId));
+        setSelectedId('');
+        setName('');
+    };
+
+    const modified = selected ? selected.body !== template : true;
+
+    return (
+        <div className="mt-4 p-4 bg-violet-50 border border-violet-200 rounded-lg text-sm text-gray-700">
+            <header className="flex flex-wrap items-center gap-2 mb-3">
+                <MessageSquareText className="h-5 w-5 text-violet-600" />
+                <span className="font-medium text-violet-800">Prompt template</span>
+                <select
+                    value={selectedId}
+                    onChange={(e) => pick(e.target.value)}
+                    className="border rounded px-2 py-1 bg-white"
+                >
+                    <option value="" disabled>
+                        Custom
+                    </option>
+                    <optgroup label="Built-in">
+                        {BUILT_IN_TEMPLATES.map((t) => (
+                            <option key={t.id} value={t.id}>
+                                {t.name}
+                            </option>
+                        ))}
+                    </optgroup>
+                    {userTemplates.length > 0 && (
+                        <optgroup label="Yours">
+                            {userTemplates.map((t) => (
+                                <option key={t.id} value={t.id}>
+                                    {t.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                {modified && <span className="text-xs text-gray-500">(edited)</span>}
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Template name"
+                    className="ml-auto border rounded px-2 py-1 w-40"
+                />
+                <button
+                    onClick={save}
+                    disabled={!name.trim()}
+                    className="px-3 py-1 bg-violet-600 text-white rounded hover:bg-violet-700 disabled:opacity-50 transition-colors"
+                >
+                    Save
+                </button>
+                {selected && !selected.builtIn && (
+                    <button
+                        onClick={remove}
+                        className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                        Delete
+                    </button>
+                )}
+            </header>
+
+            <textarea
+                value={template}
+                onChange={(e) => onTemplateChange(e.target.value)}
+                rows={10}
+                spellCheck={false}
+                className="w-full border rounded p-2 font-mono text-xs bg-white"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+                Placeholders:{' '}
+                {Object.entries(PROMPT_PLACEHOLDERS).map(([key, description], idx) => (
+                    <span key={key}>
+                        {idx > 0 && ', '}
+                        <code>{`{{${key}}}`}</code> {description}
+                    </span>
+                ))}
+            </p>
+
+            <label className="block mt-3">
+                <span className="font-medium">Question</span> <span className="text-xs text-gray-500">({'{{question}}'})</span>
+                <textarea
+                    value={question}
+                    onChange={(e) => onQuestionChange(e.target.value)}
+                    rows={2}
+                    placeholder="e.g. Why does the export hang on large folders?"
+                    className="mt-1 w-full border rounded p-2 bg-white"
+                />
+            </label>
+            {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default PromptTemplatePanel;
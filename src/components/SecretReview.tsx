@@ -0,0 +1,88 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { type SecretDecision, type SecretFinding } from '../utils/secrets';
+
+interface SecretReviewProps {
+    findings: SecretFinding[];
+    decisions: Map<string, SecretDecision>;
+    onDecide: (ids: string[], decision: SecretDecision) => void;
+}
+
+const DECISION_STYLES: Record<SecretDecision, { on: string; off: string }> = {
+    keep: {
+        on: 'bg-gray-700 text-white',
+        off: 'bg-white text-gray-700 hover:bg-gray-100',
+    },
+    redact: {
+        on: 'bg-red-600 text-white',
+        off: 'bg-white text-red-700 hover:bg-red-50',
+    },
+};
+
+/* Lists every potential credential in the selection with keep/redact toggles */
+const SecretReview: React.FC<SecretReviewProps> = ({ findings, decisions, onDecide }) => {
+    const pending = findings.filter((f) => !decisions.has(f.id)).length;
+    const allIds = findings.map((f) => f.id);
+
+    return (
+        <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <header className="flex justify-between items-center mb-3">
+                <div className="flex items-center gap-2">
+                    <ShieldAlert className="h-5 w-5 text-amber-600" />
+                    <span className="font-medium text-amber-800">
+                        Potential secrets: {findings.length}
+                        {pending > 0 && ` (${pending} awaiting review)`}
+                    </span>
+                </div>
+                <div className="flex gap-2 text-sm">
+                    <button
+                        onClick={() => onDecide(allIds, 'redact')}
+                        className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                    >
+                        Redact all
+                    </button>
+                    <button
+                        onClick={() => onDecide(allIds, 'keep')}
+                        className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+                    >
+                        Keep all
+                    </button>
+                </div>
+            </header>
+
+            <ul className="max-h-64 overflow-y-auto divide-y divide-amber-100 text-sm">
+                {findings.map((f) => {
+                    const decision = decisions.get(f.id);
+                    return (
+                        <li key={f.id} className="flex items-center gap-3 py-1">
+                            <span className="flex-1 break-all font-mono text-gray-800">
+                                {f.path}:{f.line}
+                            </span>
+                            <span className="text-amber-700 whitespace-nowrap">{f.label}</span>
+                            <span className="font-mono text-xs text-gray-500 whitespace-nowrap">
+                                {f.preview}
+                            </span>
+                            <div className="flex border rounded overflow-hidden text-xs">
+                                {(['keep', 'redact'] as SecretDecision[]).map((d) => (
+                                    <button
+                                        key={d}
+                                        onClick={() => onDecide([f.id], d)}
+                                        className={`px-2 py-1 capitalize ${
+                                            decision === d
+                                                ? DECISION_STYLES[d].on
+                                                : DECISION_STYLES[d].off
+                                        }`}
+                                    >
+                                        {d}
+                                    </button>
+                                ))}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default SecretReview;
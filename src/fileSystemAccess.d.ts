@@ -0,0 +1,27 @@
+/* Parts of the File System Access API that TypeScript's DOM lib does not
+   describe yet (Chromium only – always feature-detect before use). */
+
+export {};
+
+declare global {
+    interface FileSystemPermissionDescriptor {
+        mode?: 'read' | 'readwrite';
+    }
+
+    interface FileSystemDirectoryHandle {
+        values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+        queryPermission?(descriptor?: FileSystemPermissionDescriptor): Promise<PermissionState>;
+        requestPermission?(descriptor?: FileSystemPermissionDescriptor): Promise<PermissionState>;
+    }
+
+    interface DataTransferItem {
+        getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
+    }
+
+    interface Window {
+        showDirectoryPicker?(options?: {
+            id?: string;
+            mode?: 'read' | 'readwrite';
+        }): Promise<FileSystemDirectoryHandle>;
+    }
+}
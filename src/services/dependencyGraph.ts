@@ -0,0 +1,69 @@
+import { type FileEntry } from '../types';
+import { readText } from '../utils/encoding';
+import {
+    createImportResolver,
+    extractImports,
+    importLanguageOf,
+    isTsConfigName,
+    type GoModFile,
+    type TsConfigFile,
+} from '../utils/imports';
+import { type UploadedFile } from './projectScanner';
+
+/* file → project files it imports (sorted, without itself) */
+export type ImportGraph = Map<string, string[]>;
+
+const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * Import edges between the uploaded files. Files left out by ignore rules
+ * are neither read nor resolved to, so node_modules and build output stay
+ * out even when they were uploaded.
+ */
+export async function buildImportGraph(files: UploadedFile[]): Promise<ImportGraph> {
+    const candidates = files.filter((f) => f.excluded?.kind !== 'ignored' && f.encoding !== 'binary');
+    const read = (f: UploadedFile) => readText(f.fle, f.encoding ?? 'utf-8').catch(() => '');
+
+    const tsConfigs: TsConfigFile[] = [];
+    const goMods: GoModFile[] = [];
+    for (const f of candidates) {
+        const name = nameOf(f.path);
+        if (isTsConfigName(name)) tsConfigs.push({ path: f.path, content: await read(f) });
+        else if (name === 'go.mod') goMods.push({ path: f.path, content: await read(f) });
+    }
+    const resolve = createImportResolver(candidates.map((f) => f.path), tsConfigs, goMods);
+
+    const graph: ImportGraph = new Map();
+    for (const f of candidates) {
+        if (!importLanguageOf(f.path) || f.excluded?.kind === 'too-large') continue;
+        const targets = new Set(
+            extractImports(await read(f), f.path).flatMap((spec) => resolve(f.path, spec)),
+        );
+        targets.delete(f.path);
+        if (targets.size) graph.set(f.path, [...targets].sort());
+    }
+    return graph;
+}
+
+/** `starts` and every file they import, following at most `depth` levels (0 = all) */
+export function dependencyClosure(graph: ImportGraph, starts: string[], depth: number): string[] {
+    const seen = new Set(starts);
+    let frontier = starts;
+    for (let level = 0; frontier.length && (depth <= 0 || level < depth); level++) {
+        frontier = frontier.flatMap((path) => graph.get(path) ?? []).filter((p) => !seen.has(p));
+        frontier = [...new Set(frontier)];
+        frontier.forEach((p) => seen.add(p));
+    }
+    return [...seen];
+}
+
+/** “a.ts → b.ts, c.ts” lines for the graph section of the text exports */
+export function importGraphLines(files: FileEntry[]): string[] {
+    const seen = new Set<string>();
+    return files.flatMap((f) => {
+        /* Split files appear once per slice */
+        if (!f.imports?.length || seen.has(f.path)) return [];
+        seen.add(f.path);
+        return [`${f.path} → ${f.imports.join(', ')}`];
+    });
+}
@@ -0,0 +1,60 @@
+import { type GeneratedArtifact } from './exportFormats';
+import type {
+    ExportJobRequest,
+    ExportProgress,
+    ExportWorkerMessage,
+} from './exportPipeline';
+
+interface ExportJobOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Run an export in a dedicated Web Worker. Aborting the signal terminates the
+ * worker immediately and rejects with an “AbortError”.
+ */
+export function startExportJob(
+    request: ExportJobRequest,
+    { signal, onProgress }: ExportJobOptions = {},
+): Promise<GeneratedArtifact[]> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Export cancelled', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('../workers/export.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            reject(new DOMException('Export cancelled', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort);
+
+        worker.onmessage = (e: MessageEvent<ExportWorkerMessage>) => {
+            const msg = e.data;
+            if (msg.type === 'progress') {
+                onProgress?.(msg.progress);
+            } else if (msg.type === 'done') {
+                finish();
+                resolve(msg.artifacts);
+            } else {
+                finish();
+                reject(new Error(msg.message));
+            }
+        };
+        worker.onerror = (e) => {
+            finish();
+            reject(new Error(e.message || 'Export worker failed'));
+        };
+
+        worker.postMessage(request);
+    });
+}
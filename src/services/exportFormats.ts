@@ -0,0 +1,43 @@
+import { type PartInfo } from '../types';
+
+/* Format metadata only – the builders themselves run in the export worker
+   (see exportPipeline.ts), which keeps pdfmake out of the main bundle. */
+
+export type ExportFormat = 'txt' | 'md' | 'xml' | 'json' | 'jsonl' | 'prompt' | 'pdf';
+
+export interface ExportFormatInfo {
+    label: string;
+    filename: string;
+    buttonClass: string;    // Tailwind colours of the download button
+    splittable: boolean;    // can be chunked into parts (tooling formats and prompts stay whole)
+}
+
+/* Display order in the UI and in generation (text formats first, PDF last) */
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    txt: { label: 'TXT', filename: 'codebase.txt', buttonClass: 'bg-green-600 hover:bg-green-700', splittable: true },
+    md: { label: 'MD', filename: 'codebase.md', buttonClass: 'bg-gray-800 hover:bg-gray-900', splittable: true },
+    xml: { label: 'XML', filename: 'codebase.xml', buttonClass: 'bg-orange-600 hover:bg-orange-700', splittable: true },
+    json: { label: 'JSON', filename: 'codebase.json', buttonClass: 'bg-sky-600 hover:bg-sky-700', splittable: false },
+    jsonl: { label: 'JSONL', filename: 'codebase.jsonl', buttonClass: 'bg-cyan-700 hover:bg-cyan-800', splittable: false },
+    prompt: { label: 'Prompt', filename: 'prompt.txt', buttonClass: 'bg-violet-600 hover:bg-violet-700', splittable: false },
+    pdf: { label: 'PDF', filename: 'codebase.pdf', buttonClass: 'bg-red-600 hover:bg-red-700', splittable: true },
+};
+
+export const DEFAULT_FORMATS: ExportFormat[] = ['txt', 'md', 'pdf'];
+
+/* Characters of text output kept for the in-page preview */
+export const PREVIEW_CHARS = 2000;
+
+export interface GeneratedArtifact {
+    format: ExportFormat;
+    filename: string;
+    blob: Blob;
+    preview?: string;       // text formats only – head of the output for the UI
+    part?: PartInfo;        // set when the export was split
+}
+
+/** “codebase.txt” → “codebase.part-2-of-5.txt” */
+export function partFilename(filename: string, part: PartInfo): string {
+    const dot = filename.lastIndexOf('.');
+    return `${filename.slice(0, dot)}.part-${part.index}-of-${part.total}${filename.slice(dot)}`;
+}
@@ -0,0 +1,204 @@
+import { type BuildOptions, type FileDiff, type FileEntry } from '../types';
+import { readText, type FileEncoding } from '../utils/encoding';
+import { duplicateReference } from '../utils/contentFlags';
+import { type Manifest } from '../utils/manifests';
+import { canOutline, outlineSource } from '../utils/outline';
+import { redactSecrets, type SecretFinding } from '../utils/secrets';
+import { NO_TRANSFORM, transformContent, type TransformOptions } from '../utils/transform';
+import {
+    EXPORT_FORMATS,
+    PREVIEW_CHARS,
+    partFilename,
+    type ExportFormat,
+    type GeneratedArtifact,
+} from './exportFormats';
+import { buildTxt } from './txtBuilder';
+import { buildMarkdown } from './mdBuilder';
+import { buildPdf } from './pdfBuilder';
+import { buildXml } from './xmlBuilder';
+import { buildJson, buildJsonl } from './jsonBuilder';
+import { buildPrompt } from './promptBuilder';
+import { DEFAULT_TEMPLATE, type PromptRequest } from './promptTemplates';
+import { buildRepoSummary, summaryLines } from './repoSummary';
+import { measure, splitIntoParts, type ExportPart, type SplitOptions } from './splitter';
+
+/* Everything the worker needs – plain data only, so it survives postMessage */
+export interface ExportJobFile {
+    path: string;
+    size: number;
+    encoding: FileEncoding;
+    file: Blob;
+    redactions: SecretFinding[];    // findings the user chose to redact
+    outline: boolean;               // export signatures only
+    diff?: FileDiff;
+    imports?: string[];             // set when the export includes the import graph
+    lastModified: number;           // ms since epoch
+    duplicateOf?: string;           // identical to this exported file – only referenced
+}
+
+export interface ExportJobRequest {
+    files: ExportJobFile[];
+    formats: ExportFormat[];
+    split?: SplitOptions;
+    transform?: TransformOptions;
+    /* Repository summary preamble and per-file metadata lines */
+    summary?: { manifests: Manifest[] };
+    prompt?: PromptRequest;         // template of the 'prompt' format (default: code review)
+}
+
+export interface ExportProgress {
+    phase: string;          // e.g. “TXT”, “PDF part 2/3”
+    done: number;           // files finished in this phase
+    total: number;
+    path: string;           // file currently being read
+    bytesDone: number;
+    bytesTotal: number;
+}
+
+export type ExportWorkerMessage =
+    | { type: 'progress'; progress: ExportProgress }
+    | { type: 'done'; artifacts: GeneratedArtifact[] }
+    | { type: 'error'; message: string };
+
+const previewOf = (text: string) =>
+    text.length > PREVIEW_CHARS
+        ? `${text.slice(0, PREVIEW_CHARS)}\n\n… [truncated]`
+        : text;
+
+/** Run the builder behind a single export format */
+export async function buildFormat(
+    format: ExportFormat,
+    files: FileEntry[],
+    options: BuildOptions = {},
+    prompt: PromptRequest = { template: DEFAULT_TEMPLATE.body, question: '' },
+): Promise<GeneratedArtifact> {
+    const { part } = options;
+    const filename = part
+        ? partFilename(EXPORT_FORMATS[format].filename, part)
+        : EXPORT_FORMATS[format].filename;
+
+    const fromText = ({ blob, text }: { blob: Blob; text: string }) => ({
+        blob,
+        preview: previewOf(text),
+    });
+
+    switch (format) {
+        case 'txt': {
+            const { blob, preview } = await buildTxt(files, options);
+            return { format, filename, part, blob, preview: previewOf(preview) };
+        }
+        case 'md':
+            return { format, filename, part, ...fromText(await buildMarkdown(files, options)) };
+        case 'xml':
+            return { format, filename, part, ...fromText(await buildXml(files, options)) };
+        case 'json':
+            return { format, filename, ...fromText(await buildJson(files, options)) };
+        case 'jsonl':
+            return { format, filename, ...fromText(await buildJsonl(files, options)) };
+        case 'prompt':
+            return { format, filename, ...fromText(await buildPrompt(files, prompt, options)) };
+        case 'pdf':
+            return { format, filename, part, blob: await buildPdf(files, options) };
+    }
+}
+
+/* Report progress every time a builder reads one of the files */
+function tracked(
+    files: FileEntry[],
+    phase: string,
+    onProgress: (progress: ExportProgress) => void,
+): FileEntry[] {
+    const total = files.length;
+    const bytesTotal = files.reduce((sum, f) => sum + f.size, 0);
+    let done = 0;
+    let bytesDone = 0;
+
+    return files.map((file) => ({
+        ...file,
+        getText: async () => {
+            onProgress({ phase, done, total, path: file.path, bytesDone, bytesTotal });
+            const text = await file.getText();
+            done++;
+            bytesDone += file.size;
+            onProgress({ phase, done, total, path: file.path, bytesDone, bytesTotal });
+            return text;
+        },
+    }));
+}
+
+/** Build every requested format (and part) for the job */
+export async function runExport(
+    request: ExportJobRequest,
+    onProgress: (progress: ExportProgress) => void,
+): Promise<GeneratedArtifact[]> {
+    /* Redact first – finding offsets refer to the original text */
+    const transform = request.transform ?? NO_TRANSFORM;
+    const entries: FileEntry[] = request.files.map((f) => {
+        const outlined = f.outline && canOutline(f.path);
+        return {
+            path: f.path,
+            size: f.size,
+            encoding: f.encoding,
+            outlined,
+            diff: f.diff,
+            imports: f.imports,
+            lastModified: f.lastModified,
+            duplicateOf: f.duplicateOf,
+            getText: async () => {
+                if (f.duplicateOf) return duplicateReference(f.duplicateOf);
+                const text = redactSecrets(await readText(f.file, f.encoding), f.redactions);
+                return transformContent(outlined ? outlineSource(text, f.path) : text, f.path, transform);
+            },
+        };
+    });
+
+    const summary = request.summary
+        ? await buildRepoSummary(tracked(entries, 'Summary', onProgress), request.summary.manifests)
+        : undefined;
+    const fileMetadata = !!summary;
+
+    let parts: ExportPart[] = [];
+    if (request.split) {
+        /* Parts must hold the untracked entries, or every later read would
+           still be reported as “Splitting” */
+        const forSplit = tracked(entries, 'Splitting', onProgress);
+        const original = new Map(forSplit.map((entry, idx) => [entry, entries[idx]]));
+        /* The preamble takes its share of the first part */
+        const reserved = summary ? measure(summaryLines(summary).join('\n'), request.split) : 0;
+        parts = (await splitIntoParts(forSplit, request.split, reserved)).map((part) => ({
+            ...part,
+            files: part.files.map((f) => original.get(f) ?? f),
+        }));
+    }
+
+    /* Text formats first, PDF last – the order of EXPORT_FORMATS */
+    const artifacts: GeneratedArtifact[] = [];
+    for (const format of Object.keys(EXPORT_FORMATS) as ExportFormat[]) {
+        if (!request.formats.includes(format)) continue;
+        const { label, splittable } = EXPORT_FORMATS[format];
+
+        if (parts.length > 1 && splittable) {
+            for (const part of parts) {
+                const phase = `${label} part ${part.info.index}/${part.info.total}`;
+                artifacts.push(
+                    await buildFormat(format, tracked(part.files, phase, onProgress), {
+                        part: part.info,
+                        summary: part.info.index === 1 ? summary : undefined,
+                        fileMetadata,
+                    }),
+                );
+            }
+        } else {
+            artifacts.push(
+                await buildFormat(
+                    format,
+                    tracked(entries, label, onProgress),
+                    { summary, fileMetadata },
+                    request.prompt,
+                ),
+            );
+        }
+    }
+
+    return artifacts;
+}
@@ -0,0 +1,93 @@
+import { unifiedDiff } from '../utils/diff';
+import { readText, type FileEncoding } from '../utils/encoding';
+import { SYMLINK_MODE, hashBlob, type GitRepository } from '../utils/gitRepository';
+import { redactSecrets, scanForSecrets, type SecretFinding } from '../utils/secrets';
+import { type UploadedFile } from './projectScanner';
+
+/* The working tree of an uploaded repository compared with a commit, as
+   `git status` / `git diff <ref>` would report it. */
+
+export type GitStatus = 'modified' | 'added' | 'untracked';
+
+export const GIT_STATUS_LETTERS: Record<GitStatus, string> = { modified: 'M', added: 'A', untracked: 'U' };
+
+export interface GitChanges {
+    base: string;                         // ref the working tree was compared with
+    status: Map<string, GitStatus>;       // project path → status, changed files only
+    baseBlobs: Map<string, string>;       // project path → blob id in `base` (modified files)
+    deleted: string[];                    // in `base`, missing from the upload
+}
+
+const SYMLINK_INDEX_MODE = 0o120000;
+
+/**
+ * Compare every uploaded file below the repository with `base`. The index
+ * serves as a stat cache: files whose size and mtime match their entry are
+ * not read; everything else is hashed like `git hash-object` would.
+ */
+export async function compareWithRef(
+    repo: GitRepository,
+    files: UploadedFile[],
+    base: string,
+): Promise<GitChanges> {
+    const [tree, index] = await Promise.all([repo.readTree(base), repo.readIndex()]);
+    const prefix = repo.root ? `${repo.root}/` : '';
+
+    const status = new Map<string, GitStatus>();
+    const baseBlobs = new Map<string, string>();
+    const present = new Set<string>();
+
+    for (const f of files) {
+        if (!f.path.startsWith(prefix)) continue;
+        const relPath = f.path.slice(prefix.length);
+        const entry = tree.get(relPath);
+        const staged = index.get(relPath);
+        present.add(relPath);
+
+        /* Uploads follow symlinks, so their content never matches the link */
+        if (entry?.mode === SYMLINK_MODE || staged?.mode === SYMLINK_INDEX_MODE) continue;
+
+        if (!entry) {
+            if (staged) status.set(f.path, 'added');
+            else if (f.excluded?.kind !== 'ignored') status.set(f.path, 'untracked');
+            continue;
+        }
+
+        const unchangedSinceStaged =
+            staged && staged.size === f.size && staged.mtimeMs === f.fle.lastModified;
+        const sha = unchangedSinceStaged ? staged.sha : await hashBlob(f.fle);
+        if (sha !== entry.sha) {
+            status.set(f.path, 'modified');
+            baseBlobs.set(f.path, entry.sha);
+        }
+    }
+
+    const deleted = [...tree.keys()].filter((p) => !present.has(p)).map((p) => prefix + p);
+    return { base, status, baseBlobs, deleted };
+}
+
+/**
+ * Unified diff of a modified file against its version in `changes.base`.
+ * The current side is redacted like the export; secrets in the old version
+ * were never reviewed, so every one of them is redacted.
+ */
+export async function diffAgainstBase(
+    repo: GitRepository,
+    changes: GitChanges,
+    file: UploadedFile,
+    encoding: FileEncoding,
+    redactions: SecretFinding[],
+): Promise<string> {
+    const blob = changes.baseBlobs.get(file.path);
+    if (!blob || encoding === 'binary') return '';
+
+    const { data } = await repo.readObject(blob);
+    const oldText = await readText(new Blob([data]), encoding);
+    const newText = await readText(file.fle, encoding);
+    const relPath = repo.root ? file.path.slice(repo.root.length + 1) : file.path;
+    return unifiedDiff(
+        redactSecrets(oldText, scanForSecrets(file.path, oldText)),
+        redactSecrets(newText, redactions),
+        relPath,
+    );
+}
@@ -0,0 +1,139 @@
+import { type BuildOptions, type FileEntry, type RepoSummary } from '../types';
+import { type FileEncoding } from '../utils/encoding';
+import { sha256Hex } from '../utils/hash';
+import { languageForPath } from '../utils/languages';
+import { countLines, projectNameOf, totalSizeOf } from '../utils/projectInfo';
+import { buildTree, type TreeNode } from '../utils/treeBuilder';
+
+/* Bump whenever a field is renamed, removed or changes meaning */
+export const JSON_SCHEMA_VERSION = 1;
+
+export interface JsonFileRecord {
+    path: string;
+    size: number;           // bytes on disk
+    hash: string;           // sha256 of the exported (possibly redacted) content
+    language: string;
+    lines: number;
+    encoding: FileEncoding;
+    outline: boolean;       // true when function bodies were replaced with “…”
+    imports?: string[];     // exported files this one imports (when the graph was requested)
+    modified?: string;      // ISO 8601 modification time (with the repository summary)
+    duplicateOf?: string;   // identical to that exported file; `content` is just a reference
+    content: string;
+}
+
+export interface JsonExport {
+    schema: 'codeparse.export';
+    version: number;
+    project: {
+        name: string;
+        generatedAt: string;
+        fileCount: number;
+        totalSize: number;
+    };
+    /* Repository summary; name, counts and tree are in `project` and `tree` */
+    summary?: Pick<RepoSummary, 'totalLines' | 'languages' | 'largest' | 'manifests'>;
+    tree: TreeNode[];
+    files: JsonFileRecord[];
+}
+
+/* First line of a JSONL export with the repository summary; file records
+   have no `type` field, so consumers can tell the two apart */
+export interface JsonlSummaryRecord
+    extends Pick<
+        RepoSummary,
+        'project' | 'fileCount' | 'totalSize' | 'totalLines' | 'languages' | 'largest' | 'manifests'
+    > {
+    type: 'summary';
+}
+
+export interface JsonBuildResult {
+    blob: Blob;
+    text: string;
+}
+
+async function toRecord(file: FileEntry, options: BuildOptions): Promise<JsonFileRecord> {
+    const content = await file
+        .getText()
+        .catch(
+            (e) =>
+                `[Error reading file: ${e instanceof Error ? e.message : String(e)}]`,
+        );
+
+    return {
+        path: file.path,
+        size: file.size,
+        hash: await sha256Hex(content),
+        language: languageForPath(file.path),
+        lines: countLines(content),
+        encoding: file.encoding,
+        outline: !!file.outlined,
+        imports: file.imports,
+        modified:
+            options.fileMetadata && file.lastModified !== undefined
+                ? new Date(file.lastModified).toISOString()
+                : undefined,
+        duplicateOf: file.duplicateOf,
+        content,
+    };
+}
+
+/** Builds a single JSON document: project metadata, tree and file records */
+export async function buildJson(files: FileEntry[], options: BuildOptions = {}): Promise<JsonBuildResult> {
+    const records: JsonFileRecord[] = [];
+    for (const file of files) records.push(await toRecord(file, options));
+
+    const { summary } = options;
+
+    const doc: JsonExport = {
+        schema: 'codeparse.export',
+        version: JSON_SCHEMA_VERSION,
+        project: {
+            name: projectNameOf(files),
+            generatedAt: new Date().toISOString(),
+            fileCount: files.length,
+            totalSize: totalSizeOf(files),
+        },
+        summary: summary && {
+            totalLines: summary.totalLines,
+            languages: summary.languages,
+            largest: summary.largest,
+            manifests: summary.manifests,
+        },
+        tree: buildTree(files),
+        files: records,
+    };
+
+    const text = JSON.stringify(doc, null, 2);
+    return {
+        text,
+        blob: new Blob([text], { type: 'application/json;charset=utf-8' }),
+    };
+}
+
+/** Builds JSON Lines: one file record (same shape as `files[]` above) per line,
+ *  preceded by a `"type": "summary"` record when the summary was requested. */
+export async function buildJsonl(files: FileEntry[], options: BuildOptions = {}): Promise<JsonBuildResult> {
+    const lines: string[] = [];
+    const { summary } = options;
+    if (summary) {
+        const record: JsonlSummaryRecord = {
+            type: 'summary',
+            project: summary.project,
+            fileCount: summary.fileCount,
+            totalSize: summary.totalSize,
+            totalLines: summary.totalLines,
+            languages: summary.languages,
+            largest: summary.largest,
+            manifests: summary.manifests,
+        };
+        lines.push(`${JSON.stringify(record)}\n`);
+    }
+    for (const file of files) lines.push(`${JSON.stringify(await toRecord(file, options))}\n`);
+
+    const text = lines.join('');
+    return {
+        text,
+        blob: new Blob([text], { type: 'application/jsonl;charset=utf-8' }),
+    };
+}
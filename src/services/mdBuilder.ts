@@ -0,0 +1,139 @@
+import { type BuildOptions, type FileEntry, type RepoSummary } from '../types';
+import { formatCount, formatFileSize } from '../utils/format';
+import { languageForPath } from '../utils/languages';
+import { fileNote } from '../utils/outline';
+import { buildTree, renderAsciiTree } from '../utils/treeBuilder';
+import { importGraphLines } from './dependencyGraph';
+import { dependencyGroups, fileMetaLine, manifestTitle } from './repoSummary';
+import { partHeaderLines } from './splitter';
+
+export interface MdBuildResult {
+    blob: Blob;
+    text: string;
+}
+
+const longestBacktickRun = (text: string) =>
+    Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+
+/* A fence must be longer than any backtick run inside the fenced text */
+export function fenceFor(text: string): string {
+    return '`'.repeat(Math.max(3, longestBacktickRun(text) + 1));
+}
+
+/* Inline code the same way; a space keeps an edge backtick off the delimiter */
+function inlineCode(text: string): string {
+    const ticks = '`'.repeat(longestBacktickRun(text) + 1);
+    const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+    return `${ticks}${pad}${text}${pad}${ticks}`;
+}
+
+/* Unique, HTML-safe anchor ids derived from the file path */
+function makeAnchors(paths: string[]): Map<string, string> {
+    const used = new Set<string>();
+    const anchors = new Map<string, string>();
+
+    for (const path of paths) {
+        const base = path.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'file';
+        let id = base;
+        for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+        used.add(id);
+        anchors.set(path, id);
+    }
+    return anchors;
+}
+
+/* Markdown link text must not break on brackets inside a path */
+const escapeLinkText = (text: string) => text.replace(/([\\[\]])/g, '\\$1');
+
+const escapeCell = (text: string) => text.replace(/([\\|])/g, '\\$1');
+
+/* Summary tables; the tree already has its own section */
+function summarySection(summary: RepoSummary): string {
+    const lines = [
+        '## Repository Summary',
+        '',
+        `**${summary.project || 'Project'}**: ${formatCount(summary.fileCount)} files, ` +
+            `${formatCount(summary.totalLines)} lines, ${formatFileSize(summary.totalSize)}`,
+        '',
+        '| Language | Files | Lines |',
+        '| --- | ---: | ---: |',
+        ...summary.languages.map(
+            (l) => `| ${escapeCell(l.language)} | ${formatCount(l.files)} | ${formatCount(l.lines)} |`,
+        ),
+        '',
+        '**Largest files**',
+        '',
+        '| File | Size | Lines |',
+        '| --- | ---: | ---: |',
+        ...summary.largest.map(
+            (f) => `| ${inlineCode(escapeCell(f.path))} | ${formatFileSize(f.size)} | ${formatCount(f.lines)} |`,
+        ),
+    ];
+    if (summary.manifests.length) {
+        lines.push('', '**Manifests**', '');
+        for (const manifest of summary.manifests) {
+            lines.push(`- ${inlineCode(manifestTitle(manifest))}`);
+            for (const [group, list] of dependencyGroups(manifest)) lines.push(`  - ${group}: ${list}`);
+        }
+    }
+    return `${lines.join('\n')}\n\n`;
+}
+
+/** Builds a Markdown document: directory tree, table of contents, one section per file */
+export async function buildMarkdown(
+    files: FileEntry[],
+    options: BuildOptions = {},
+): Promise<MdBuildResult> {
+    const anchors = makeAnchors(files.map((f) => f.path));
+    const tree = renderAsciiTree(buildTree(files));
+    const graph = importGraphLines(files).join('\n');
+
+    const pieces: string[] = [
+        '# Codebase Export\n\n',
+        options.part
+            ? `${partHeaderLines(options.part).map((l) => `> ${l}`).join('\n')}\n\n`
+            : '',
+        options.summary ? summarySection(options.summary) : '',
+        '## Directory Structure\n\n',
+        `${fenceFor(tree)}text\n${tree}\n${fenceFor(tree)}\n\n`,
+        graph ? `## Import Graph\n\n${fenceFor(graph)}text\n${graph}\n${fenceFor(graph)}\n\n` : '',
+        '## Table of Contents\n\n',
+        ...files.map(
+            (f, idx) => `${idx + 1}. [${escapeLinkText(f.path)}](#${anchors.get(f.path)})\n`,
+        ),
+        '\n## Files\n\n',
+    ];
+
+    for (const file of files) {
+        const content = await file
+            .getText()
+            .catch(
+                (e) =>
+                    `[Error reading file: ${e instanceof Error ? e.message : String(e)}]`,
+            );
+
+        const fence = fenceFor(content);
+        const note = fileNote(file);
+
+        pieces.push(
+            `<a id="${anchors.get(file.path)}"></a>\n\n`,
+            `### ${inlineCode(file.path)}\n\n`,
+            note ? `_${note}_\n\n` : '',
+            options.fileMetadata ? `_${fileMetaLine(file, content)}_\n\n` : '',
+            `${fence}${languageForPath(file.path)}\n${content}\n${fence}\n\n`,
+        );
+        if (file.diff) {
+            const diffFence = fenceFor(file.diff.text);
+            pieces.push(
+                `**Changes since ${inlineCode(file.diff.base)}**\n\n`,
+                `${diffFence}diff\n${file.diff.text}${diffFence}\n\n`,
+            );
+        }
+    }
+
+    const text = pieces.join('');
+    return {
+        text,
+        blob: new Blob([text], { type: 'text/markdown;charset=utf-8' }),
+    };
+}
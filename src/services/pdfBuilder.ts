@@ -1,21 +1,207 @@
 import pdfMake from 'pdfmake/build/pdfmake';
-import 'pdfmake/build/vfs_fonts';
-import type { Content, TDocumentDefinitions } from 'pdfmake/interfaces';
-import type { FileEntry } from '../types';
+import type {
+    Content,
+    CustomTableLayout,
+    TDocumentDefinitions,
+    TFontDictionary,
+} from 'pdfmake/interfaces';
+import monoRegularUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf?url';
+import monoBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-Bold.ttf?url';
+import monoItalicUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-Oblique.ttf?url';
+import monoBoldItalicUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-BoldOblique.ttf?url';
+import type { BuildOptions, FileEntry } from '../types';
+import { tokenizeLines, type TokenKind } from '../utils/lexer';
+import { languageForPath } from '../utils/languages';
+import { fileNote } from '../utils/outline';
+import { projectNameOf } from '../utils/projectInfo';
+import { buildTree, type TreeNode } from '../utils/treeBuilder';
+import { fileMetaLine, summaryLines } from './repoSummary';
+import { partHeaderLines } from './splitter';
+
+/* Colours roughly follow the GitHub light theme */
+const TOKEN_STYLES: Record<TokenKind, { color?: string; bold?: boolean; italics?: boolean }> = {
+    plain:   {},
+    keyword: { color: '#cf222e', bold: true },
+    string:  { color: '#0a3069' },
+    regex:   { color: '#0a3069' },
+    comment: { color: '#6e7781', italics: true },
+    number:  { color: '#0550ae' },
+};
+
+/* Code table: a thin rule between the line-number gutter and the code */
+const CODE_LAYOUT: CustomTableLayout = {
+    hLineWidth: () => 0,
+    vLineWidth: (i) => (i === 1 ? 0.5 : 0),
+    vLineColor: () => '#d0d7de',
+    paddingLeft: (i) => (i === 0 ? 0 : 4),
+    paddingRight: (i) => (i === 0 ? 4 : 0),
+    paddingTop: () => 0,
+    paddingBottom: () => 0,
+};
+
+/* ── Fonts ─────────────────────────────────────────────────────────────
+   The whole document is set in DejaVu Sans Mono, which also covers far
+   more of Unicode than pdfmake's bundled Roboto. The files are fetched
+   once and handed to pdfmake through its virtual file system. */
+
+const MONO_FONT = 'DejaVuSansMono';
+
+const MONO_FILES = {
+    normal:      ['DejaVuSansMono.ttf', monoRegularUrl],
+    bold:        ['DejaVuSansMono-Bold.ttf', monoBoldUrl],
+    italics:     ['DejaVuSansMono-Oblique.ttf', monoItalicUrl],
+    bolditalics: ['DejaVuSansMono-BoldOblique.ttf', monoBoldItalicUrl],
+} as const;
+
+const FONTS: TFontDictionary = {
+    [MONO_FONT]: {
+        normal: MONO_FILES.normal[0],
+        bold: MONO_FILES.bold[0],
+        italics: MONO_FILES.italics[0],
+        bolditalics: MONO_FILES.bolditalics[0],
+    },
+};
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/* Reads one font file; the browser fetches the bundled asset */
+export type FontReader = (name: string, url: string) => Promise<Uint8Array>;
+
+const fetchFont: FontReader = async (name, url) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load font ${name} (${response.status})`);
+    return new Uint8Array(await response.arrayBuffer());
+};
+
+let readFont: FontReader = fetchFont;
+let monoVfs: Promise<Record<string, string>> | null = null;
+
+/** Load the fonts some other way, e.g. from node_modules in the CLI */
+export function setFontReader(reader: FontReader) {
+    readFont = reader;
+    monoVfs = null;
+}
+
+function loadMonoFont(): Promise<Record<string, string>> {
+    monoVfs ??= Promise.all(
+        Object.values(MONO_FILES).map(
+            async ([name, url]) => [name, toBase64(await readFont(name, url))] as const,
+        ),
+    ).then(Object.fromEntries);
+
+    /* Let a later export retry after a network hiccup */
+    monoVfs.catch(() => (monoVfs = null));
+    return monoVfs;
+}
+
+/* ── Bookmarks ─────────────────────────────────────────────────────────
+   pdfmake 0.2 has no outline API, so the underlying pdfkit document is
+   reached through the internal _createDoc/_flushDoc pair and bookmarks are
+   added once the layout has assigned pages. pdfmake is pinned for that
+   reason; should the pair disappear, the PDF is still built, without them. */
+
+interface PdfKitOutline {
+    addItem(title: string, options?: { expanded?: boolean }): PdfKitOutline;
+}
+
+interface PdfKitDocument {
+    outline: PdfKitOutline;
+    switchToPage(index: number): void;
+}
+
+interface PdfMakeDocument {
+    _createDoc(options: { bufferPages: boolean }, callback: (doc: PdfKitDocument) => void): void;
+    _flushDoc(doc: PdfKitDocument, callback: (buffer: Uint8Array) => void): void;
+}
+
+/* Mirror the folder structure; folders point at their first file's page */
+function addBookmarks(
+    doc: PdfKitDocument,
+    parent: PdfKitOutline,
+    nodes: TreeNode[],
+    pageOf: Map<string, number>,
+): void {
+    const firstPage = (node: TreeNode): number =>
+        node.type === 'file'
+            ? pageOf.get(node.path) ?? Infinity
+            : Math.min(...(node.children ?? []).map(firstPage));
+
+    for (const node of nodes) {
+        const page = firstPage(node);
+        if (!Number.isFinite(page)) continue;
+
+        doc.switchToPage(page - 1);
+        const item = parent.addItem(node.name, { expanded: node.type === 'folder' });
+        if (node.children) addBookmarks(doc, item, node.children, pageOf);
+    }
+}
+
+/* ── Content ───────────────────────────────────────────────────────── */
+
+/* Line-numbered, syntax-highlighted listing of one file */
+function codeTable(text: string, language: string): Content {
+    const lines = tokenizeLines(text, language);
+    const gutter = String(lines.length).length;
+
+    return {
+        table: {
+            widths: [gutter * 5 + 4, '*'],
+            body: lines.map((tokens, idx) => [
+                { text: String(idx + 1), style: 'lineNumber' },
+                {
+                    text: tokens.length
+                        ? tokens.map((t) => ({ text: t.text, ...TOKEN_STYLES[t.kind] }))
+                        : ' ',
+                    preserveLeadingSpaces: true,
+                },
+            ]),
+        },
+        layout: CODE_LAYOUT,
+        style: 'code',
+    };
+}
 
 /* Build a Unicode-safe PDF and return it as a Blob */
-export async function buildPdf(files: FileEntry[]): Promise<Blob> {
-    /* ── 1.  Top-level title ─────────────────────────────────────────── */
+export async function buildPdf(files: FileEntry[], options: BuildOptions = {}): Promise<Blob> {
+    /* ── 1.  Title, summary and clickable table of contents ──────────── */
+    const title = projectNameOf(files) || 'Codebase Export';
     const content: Content[] = [
+        { text: title, style: 'title' },
         {
-            text: `Codebase Export – ${new Date().toLocaleDateString()}`,
-            style: 'title',
+            text: `Exported ${new Date().toLocaleDateString()}`,
+            style: 'subtitle',
             margin: [0, 0, 0, 12] as [number, number, number, number],
         },
     ];
+    if (options.part) {
+        content.push({
+            text: partHeaderLines(options.part).join('\n'),
+            style: 'partHeader',
+        });
+    }
+    if (options.summary) {
+        content.push({
+            text: summaryLines(options.summary).join('\n'),
+            style: 'summary',
+            preserveLeadingSpaces: true,
+            pageBreak: 'after',
+        });
+    }
+    content.push({
+        toc: { title: { text: 'Contents', style: 'tocTitle' } },
+        pageBreak: 'after',
+    });
 
     /* ── 2.  One section per file ────────────────────────────────────── */
-    for (const file of files) {
+    const idToPath = new Map<string, string>();
+
+    for (const [idx, file] of files.entries()) {
         let fileText: string;
         try {
             fileText = await file.getText();
@@ -25,22 +211,33 @@ export async function buildPdf(files: FileEntry[]): Promise<Blob> {
             }]`;
         }
 
+        const id = `file-${idx + 1}`;
+        idToPath.set(id, file.path);
+
         content.push(
-            { text: file.path, style: 'fileHeader' },
             {
-                text: fileText.length ? fileText : ' ',
-                style: 'code',
-                preserveLeadingSpaces: true,
+                id,
+                text: [file.path, fileNote(file)].filter(Boolean).join('  '),
+                style: 'fileHeader',
+                tocItem: true,
+                tocStyle: 'tocEntry',
             },
+            ...(options.fileMetadata
+                ? [{ text: fileMetaLine(file, fileText), style: 'fileMeta' }]
+                : []),
+            codeTable(fileText, languageForPath(file.path)),
         );
     }
 
     /* ── 3.  Document definition ─────────────────────────────────────── */
+    const pageOf = new Map<string, number>();
+
     const docDef: TDocumentDefinitions = {
+        info: { title },
         pageSize: 'A4',
         pageMargins: [40, 40, 40, 40],
         defaultStyle: {
-            font: 'Roboto',      // ← built-in font shipped with pdfmake
+            font: MONO_FONT,
             fontSize: 8,
             lineHeight: 1.1,
         },
@@ -52,16 +249,48 @@ export async function buildPdf(files: FileEntry[]): Promise<Blob> {
         }),
         styles: {
             title:      { fontSize: 10, bold: true },
+            subtitle:   { fontSize: 7, color: '#6e7781' },
+            summary:    { fontSize: 7 },
+            tocTitle:   { fontSize: 9, bold: true, margin: [0, 0, 0, 6] },
+            tocEntry:   { fontSize: 7 },
             fileHeader: { fontSize: 9, bold: true, margin: [0, 12, 0, 4] },
-            code:       { fontSize: 8 },
+            fileMeta:   { fontSize: 6, color: '#6e7781', margin: [0, 0, 0, 4] },
+            partHeader: { fontSize: 8, italics: true, margin: [0, 0, 0, 8] },
+            code:       { fontSize: 7, lineHeight: 1.15 },
+            lineNumber: { color: '#8c959f', alignment: 'right' },
+        },
+        /* Never breaks – only used to learn which page each file starts on */
+        pageBreakBefore: (node) => {
+            const path = typeof node.id === 'string' ? idToPath.get(node.id) : undefined;
+            if (path && !pageOf.has(path)) pageOf.set(path, node.startPosition.pageNumber);
+            return false;
         },
         content,
     };
 
-    /* ── 4.  Create and return Blob ──────────────────────────────────── */
+    /* ── 4.  Lay out, add bookmarks and return Blob ──────────────────── */
+    const vfs = await loadMonoFont();
+    const pdf = pdfMake.createPdf(docDef, undefined, FONTS, vfs);
+    const internals = pdf as unknown as PdfMakeDocument;
+
     return new Promise<Blob>((resolve, reject) => {
-        pdfMake.createPdf(docDef).getBlob((blob) =>
-            blob ? resolve(blob) : reject(new Error('PDF generation failed')),
-        );
+        const toBlob = (buffer: Uint8Array) => resolve(new Blob([buffer], { type: 'application/pdf' }));
+        try {
+            /* Checked at runtime – the pair is not part of pdfmake's API */
+            if (typeof internals._createDoc !== 'function' || typeof internals._flushDoc !== 'function') {
+                pdf.getBuffer(toBlob);
+                return;
+            }
+            internals._createDoc({ bufferPages: true }, (doc) => {
+                try {
+                    addBookmarks(doc, doc.outline, buildTree(files), pageOf);
+                    internals._flushDoc(doc, toBlob);
+                } catch (e) {
+                    reject(e instanceof Error ? e : new Error('PDF generation failed'));
+                }
+            });
+        } catch (e) {
+            reject(e instanceof Error ? e : new Error('PDF generation failed'));
+        }
     });
-}
\ No newline at end of file
+}
@@ -0,0 +1,250 @@
+import { EXPORT_FORMATS, type ExportFormat } from './exportFormats';
+import { type SplitUnit } from './splitter';
+import { createGlobMatcher, escapeGlob, globToRegExp } from '../utils/glob';
+import { TOKEN_ENCODINGS, type TokenEncoding } from '../utils/tokenizer';
+import { type TransformOptions } from '../utils/transform';
+
+/* Named selections remembered per project (keyed by the uploaded folder's
+ * name) in localStorage, and shareable as a `codeparse.profile.json`. */
+
+export const PROFILE_FILENAME = 'codeparse.profile.json';
+
+/* Export settings a profile carries. Every field is optional so a shared
+   file may pin only some of them; the rest keep their current values. */
+export interface ProfileOptions {
+    formats: ExportFormat[];
+    tokenEncoding: TokenEncoding;
+    contextWindow: number;
+    split: { enabled: boolean; unit: SplitUnit; budget: number };
+    transform: TransformOptions;
+    outlineAll: boolean;
+}
+
+/*
+ * Patterns are relative to the project root. A file is selected when
+ *   1. it matches no `exclude` pattern, and
+ *   2. it matches an `include` pattern – or, with no includes, it is not
+ *      excluded by default (ignore files, binary, size limit …).
+ * Includes may therefore pull in default-excluded files.
+ */
+export interface SelectionProfile {
+    name: string;
+    include: string[];
+    exclude: string[];
+    options: Partial<ProfileOptions>;
+}
+
+export interface StoredProfiles {
+    active?: string;        // applied automatically on the next upload
+    profiles: SelectionProfile[];
+}
+
+interface ProfileFile {
+    path: string;           // relative to the project root
+    excluded: boolean;      // left out of the default selection
+}
+
+const STORAGE_PREFIX = 'codeparse.profiles:';
+const SCHEMA = 'codeparse.profile';
+const VERSION = 1;
+
+/* ───────────────────────────── selection ───────────────────────────── */
+
+/** Paths (relative to the project root) the profile selects */
+export function applyProfile(profile: SelectionProfile, files: ProfileFile[]): Set<string> {
+    const included = createGlobMatcher(profile.include);
+    const excluded = createGlobMatcher(profile.exclude);
+    const hasIncludes = profile.include.some((p) => p.trim());
+
+    return new Set(
+        files
+            .filter((f) => !excluded(f.path) && (hasIncludes ? included(f.path) : !f.excluded))
+            .map((f) => f.path),
+    );
+}
+
+type Want = 'yes' | 'no' | 'any';
+
+/* Fewest patterns covering every 'yes' path and no 'no' path: a folder
+   without any 'no' below it collapses into `folder/**`. */
+function coverPaths(entries: { rest: string; want: Want }[], prefix: string, out: string[]) {
+    const folders = new Map<string, { rest: string; want: Want }[]>();
+    for (const e of entries) {
+        const slash = e.rest.indexOf('/');
+        if (slash === -1) {
+            if (e.want === 'yes') out.push(`/${escapeGlob(prefix + e.rest)}`);
+            continue;
+        }
+        const name = e.rest.slice(0, slash);
+        if (!folders.has(name)) folders.set(name, []);
+        folders.get(name)!.push({ rest: e.rest.slice(slash + 1), want: e.want });
+    }
+
+    folders.forEach((children, name) => {
+        if (!children.some((c) => c.want === 'yes')) return;
+        if (children.some((c) => c.want === 'no')) coverPaths(children, `${prefix}${name}/`, out);
+        else out.push(`/${escapeGlob(prefix + name)}/`);
+    });
+}
+
+/**
+ * Patterns that reproduce `selected` under applyProfile(). Usually only
+ * excludes (“tests/”, “fixtures/”); when default-excluded files were ticked
+ * the whole selection is spelled out as includes instead.
+ */
+export function selectionToPatterns(
+    files: ProfileFile[],
+    selected: Set<string>,
+): Pick<SelectionProfile, 'include' | 'exclude'> {
+    const include: string[] = [];
+    const exclude: string[] = [];
+
+    if (files.some((f) => f.excluded && selected.has(f.path))) {
+        coverPaths(
+            files.map((f) => ({ rest: f.path, want: selected.has(f.path) ? 'yes' : 'no' })),
+            '',
+            include,
+        );
+    } else {
+        /* Default-excluded files stay out either way – they may go in a folder pattern */
+        coverPaths(
+            files.map((f) => ({
+                rest: f.path,
+                want: selected.has(f.path) ? 'no' : f.excluded ? 'any' : 'yes',
+            })),
+            '',
+            exclude,
+        );
+    }
+    return { include, exclude };
+}
+
+/* ───────────────────────────── validation ──────────────────────────── */
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function parsePatterns(value: unknown, field: string): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((p) => typeof p !== 'string')) {
+        throw new Error(`“${field}” must be a list of glob patterns`);
+    }
+    for (const pattern of value as string[]) {
+        try {
+            globToRegExp(pattern);
+        } catch {
+            throw new Error(`Invalid glob pattern in “${field}”: ${pattern}`);
+        }
+    }
+    return value as string[];
+}
+
+/* Unknown or malformed options are dropped rather than rejected */
+function parseOptions(value: unknown): Partial<ProfileOptions> {
+    if (!isObject(value)) return {};
+    const options: Partial<ProfileOptions> = {};
+
+    if (Array.isArray(value.formats)) {
+        options.formats = value.formats.filter(
+            (f): f is ExportFormat => typeof f === 'string' && f in EXPORT_FORMATS,
+        );
+    }
+    if (typeof value.tokenEncoding === 'string' && value.tokenEncoding in TOKEN_ENCODINGS) {
+        options.tokenEncoding = value.tokenEncoding as TokenEncoding;
+    }
+    if (typeof value.contextWindow === 'number' && value.contextWindow > 0) {
+        options.contextWindow = value.contextWindow;
+    }
+    const split = value.split;
+    if (
+        isObject(split) &&
+        typeof split.enabled === 'boolean' &&
+        (split.unit === 'tokens' || split.unit === 'bytes') &&
+        typeof split.budget === 'number' &&
+        split.budget > 0
+    ) {
+        options.split = { enabled: split.enabled, unit: split.unit, budget: split.budget };
+    }
+    const transform = value.transform;
+    if (isObject(transform)) {
+        options.transform = {
+            stripComments: transform.stripComments === true,
+            collapseWhitespace: transform.collapseWhitespace === true,
+        };
+    }
+    if (typeof value.outlineAll === 'boolean') options.outlineAll = value.outlineAll;
+
+    return options;
+}
+
+function parseProfile(value: unknown): SelectionProfile {
+    if (!isObject(value)) throw new Error('Not a CodeParse profile');
+    if (typeof value.name !== 'string' || !value.name.trim()) {
+        throw new Error('The profile has no name');
+    }
+    return {
+        name: value.name.trim(),
+        include: parsePatterns(value.include, 'include'),
+        exclude: parsePatterns(value.exclude, 'exclude'),
+        options: parseOptions(value.options),
+    };
+}
+
+/* ─────────────────────────── import / export ───────────────────────── */
+
+/** Contents of a `codeparse.profile.json` for one profile */
+export function serializeProfile(profile: SelectionProfile): string {
+    return JSON.stringify({ schema: SCHEMA, version: VERSION, ...profile }, null, 2);
+}
+
+/** Read a `codeparse.profile.json`; throws an Error with a readable message */
+export function parseProfileFile(text: string): SelectionProfile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+    if (isObject(data) && data.schema !== undefined && data.schema !== SCHEMA) {
+        throw new Error(`Unexpected schema “${String(data.schema)}”`);
+    }
+    if (isObject(data) && typeof data.version === 'number' && data.version > VERSION) {
+        throw new Error(`Profile version ${data.version} is newer than this app supports`);
+    }
+    return parseProfile(data);
+}
+
+/* ───────────────────────────── storage ─────────────────────────────── */
+
+const storageKey = (project: string) => `${STORAGE_PREFIX}${project}`;
+
+/** Profiles saved for the project; storage errors just mean “none” */
+export function loadProfiles(project: string): StoredProfiles {
+    try {
+        const raw = localStorage.getItem(storageKey(project));
+        const data: unknown = raw ? JSON.parse(raw) : null;
+        if (!isObject(data) || !Array.isArray(data.profiles)) return { profiles: [] };
+
+        const profiles = data.profiles.flatMap((p) => {
+            try {
+                return [parseProfile(p)];
+            } catch {
+                return [];
+            }
+        });
+        const active = profiles.some((p) => p.name === data.active) ? (data.active as string) : undefined;
+        return { active, profiles };
+    } catch {
+        return { profiles: [] };
+    }
+}
+
+/** Persist the project's profiles; returns false when storage is unavailable or full */
+export function saveProfiles(project: string, stored: StoredProfiles): boolean {
+    try {
+        localStorage.setItem(storageKey(project), JSON.stringify(stored));
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,108 @@
+import { type ExclusionReason } from '../types';
+import { flagContent, vendoredDir } from '../utils/contentFlags';
+import { decodeText, detectFileEncoding, type FileEncoding } from '../utils/encoding';
+import { MAX_FILE_SIZE, isBinaryFileName, isCodeFile } from '../utils/fileFilters';
+import { type PickedFile } from '../utils/folderInput';
+import { sha256Hex } from '../utils/hash';
+import { createIgnoreMatcher, isIgnoreFile, type IgnoreSource } from '../utils/ignoreRules';
+
+/* Turns picked files into the project model shared by the web app and the
+   CLI: ignore files are honoured and every file that should stay out of
+   the default selection is flagged with the reason why. */
+
+export interface UploadedFile {
+    fle: File;
+    path: string;
+    size: number;
+    excluded?: ExclusionReason;   // set when the file is left out of the default selection
+    encoding?: FileEncoding;      // sniffed during the scan (excluded files: on demand)
+    hash?: string;                // sha256 of the content, for files that passed the rules
+}
+
+export interface ScanResult {
+    files: UploadedFile[];        // sorted by path
+    ignoreSources: string[];      // ignore files that were applied
+}
+
+/** Scan picked files; each root folder (first path segment) gets its own ignore rules */
+export async function scanProject(picked: PickedFile[]): Promise<ScanResult> {
+    const roots = new Map<string, PickedFile[]>();
+    for (const p of picked) {
+        const baseDir = p.path.includes('/') ? p.path.split('/')[0] : '';
+        if (!roots.has(baseDir)) roots.set(baseDir, []);
+        roots.get(baseDir)!.push(p);
+    }
+
+    const clean: UploadedFile[] = [];
+    const sourcePaths: string[] = [];
+
+    for (const [baseDir, group] of roots) {
+        /* Path relative to its root (for ignore matching) */
+        const toRelPath = (normalized: string) =>
+            baseDir ? normalized.slice(baseDir.length + 1) : normalized;
+
+        /* Read every ignore file we find, each scoped to its own directory */
+        const sources: IgnoreSource[] = [];
+        for (const p of group) {
+            const relPath = toRelPath(p.path);
+            if (isIgnoreFile(relPath)) {
+                sources.push({ path: relPath, content: await p.file.text() });
+            }
+        }
+        const matchIgnore = createIgnoreMatcher(sources);
+        sourcePaths.push(
+            ...sources.map((s) => (roots.size > 1 && baseDir ? `${baseDir}/${s.path}` : s.path)),
+        );
+
+        /* Build cleaned list – excluded files are kept, but flagged */
+        for (const { file: f, path: normalized } of group) {
+            const relPath = toRelPath(normalized);
+
+            let excluded: ExclusionReason | undefined;
+            const match = matchIgnore(relPath);
+            const vendored = vendoredDir(relPath);
+            if (match.ignored && match.rule) {                      // ignore-file exclusion
+                /* .git internals are always skipped and would only add noise */
+                if (match.rule.source === 'built-in') continue;
+                excluded = { kind: 'ignored', rule: match.rule };
+            } else if (isBinaryFileName(f.name)) {
+                excluded = { kind: 'binary' };
+            } else if (!isCodeFile(f.name)) {                       // fallback extension filter
+                excluded = { kind: 'extension' };
+            } else if (f.size > MAX_FILE_SIZE) {
+                excluded = { kind: 'too-large', limit: MAX_FILE_SIZE };
+            } else if (vendored) {
+                excluded = { kind: 'vendored', dir: vendored };
+            }
+
+            /* Content sniffing only for files that made it this far */
+            let encoding: FileEncoding | undefined;
+            let hash: string | undefined;
+            if (!excluded) {
+                encoding = await detectFileEncoding(f);
+                if (encoding === 'binary') {
+                    excluded = { kind: 'binary' };
+                } else {
+                    const bytes = await f.arrayBuffer();
+                    hash = await sha256Hex(bytes);
+                    excluded = flagContent(f.name, decodeText(bytes, encoding));
+                }
+            }
+
+            clean.push({ fle: f, path: normalized, size: f.size, excluded, encoding, hash });
+        }
+    }
+
+    /* Sort for nicer UI */
+    clean.sort((a, b) => a.path.localeCompare(b.path));
+
+    /* Identical copies point at the first file with that content */
+    const firstWithHash = new Map<string, string>();
+    for (const f of clean) {
+        if (f.excluded || !f.hash || f.size === 0) continue;
+        const original = firstWithHash.get(f.hash);
+        if (original) f.excluded = { kind: 'duplicate', of: original };
+        else firstWithHash.set(f.hash, f.path);
+    }
+    return { files: clean, ignoreSources: sourcePaths.sort() };
+}
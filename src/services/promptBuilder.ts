@@ -0,0 +1,49 @@
+import { type BuildOptions, type FileEntry } from '../types';
+import { formatCount, formatFileSize } from '../utils/format';
+import { type PromptRequest, renderPrompt } from './promptTemplates';
+import { buildRepoSummary } from './repoSummary';
+import { buildTxt } from './txtBuilder';
+
+export interface PromptBuildResult {
+    blob: Blob;
+    text: string;
+}
+
+/** Renders a prompt template around the TXT rendering of the files */
+export async function buildPrompt(
+    files: FileEntry[],
+    prompt: PromptRequest,
+    options: BuildOptions = {},
+): Promise<PromptBuildResult> {
+    /* Every placeholder needs the contents – read each file once */
+    const cached: FileEntry[] = [];
+    for (const file of files) {
+        const text = await file
+            .getText()
+            .catch((e) => `[Error reading file: ${e instanceof Error ? e.message : String(e)}]`);
+        cached.push({ ...file, getText: async () => text });
+    }
+
+    const summary = await buildRepoSummary(cached, []);
+    const stats = [
+        `${formatCount(summary.fileCount)} files · ${formatCount(summary.totalLines)} lines · ` +
+            formatFileSize(summary.totalSize),
+        ...summary.languages.map(
+            (l) => `- ${l.language}: ${formatCount(l.files)} files, ${formatCount(l.lines)} lines`,
+        ),
+    ].join('\n');
+
+    /* The tree has a placeholder of its own, so the TXT body skips the summary */
+    const body = await buildTxt(cached, { fileMetadata: options.fileMetadata });
+
+    const text = renderPrompt(prompt.template, {
+        tree: summary.tree,
+        files: (await body.blob.text()).trimEnd(),
+        stats,
+        question: prompt.question.trim(),
+    });
+    return {
+        text,
+        blob: new Blob([text], { type: 'text/plain;charset=utf-8' }),
+    };
+}
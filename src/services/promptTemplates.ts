@@ -0,0 +1,138 @@
+/* Prompt templates wrap an export with the instructions that would otherwise
+ * be typed before every upload. Placeholders are filled in by the export
+ * worker (see promptBuilder.ts); user templates live in localStorage. */
+
+export const PROMPT_PLACEHOLDERS = {
+    tree: 'directory tree of the exported files',
+    files: 'every exported file, fenced as in the TXT export',
+    stats: 'file, line and size counts per language',
+    question: 'the question typed next to the template',
+} as const;
+
+export type PromptPlaceholder = keyof typeof PROMPT_PLACEHOLDERS;
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    body: string;
+    builtIn?: boolean;
+}
+
+/* What the worker needs to render the prompt artifact */
+export interface PromptRequest {
+    template: string;       // template body
+    question: string;
+}
+
+const GROUNDING =
+    'Answer only from the files below. If something is not in them, say so instead of guessing, ' +
+    'and cite file paths for every claim.';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'code-review',
+        name: 'Code review',
+        builtIn: true,
+        body: `You are a senior engineer reviewing this codebase. ${GROUNDING}
+
+## Project
+{{stats}}
+
+## Directory structure
+{{tree}}
+
+## Files
+{{files}}
+
+## Review focus
+{{question}}
+
+List bugs, risky patterns, missing error handling and hard-to-follow code, most severe first. For each finding give the file, the lines involved and a concrete fix.
+`,
+    },
+    {
+        id: 'onboarding',
+        name: 'Onboarding',
+        builtIn: true,
+        body: `You are helping a new team member find their way around this codebase. ${GROUNDING}
+
+## Project
+{{stats}}
+
+## Directory structure
+{{tree}}
+
+## Files
+{{files}}
+
+First explain the architecture: the main modules, how data flows between them, and where a newcomer should start reading. Then answer this question:
+{{question}}
+`,
+    },
+    {
+        id: 'bug-hunt',
+        name: 'Bug hunting',
+        builtIn: true,
+        body: `You are debugging this codebase. ${GROUNDING}
+
+## Observed problem
+{{question}}
+
+## Project
+{{stats}}
+
+## Directory structure
+{{tree}}
+
+## Files
+{{files}}
+
+List the most likely causes of the problem, ranked by likelihood. For each one point to the code responsible, explain how it produces the symptom, and describe how to confirm it and how to fix it.
+`,
+    },
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/** Fill `{{name}}` placeholders; unknown names are left untouched */
+export function renderPrompt(template: string, values: Record<PromptPlaceholder, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        Object.hasOwn(values, name) ? values[name as PromptPlaceholder] : match,
+    );
+}
+
+/* ───────────────────────────── storage ─────────────────────────────── */
+
+const STORAGE_KEY = 'codeparse.promptTemplates';
+
+const isTemplate = (value: unknown): value is PromptTemplate =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromptTemplate).id === 'string' &&
+    typeof (value as PromptTemplate).name === 'string' &&
+    typeof (value as PromptTemplate).body === 'string';
+
+/** The user's own templates; storage errors just mean “none” */
+export function loadPromptTemplates(): PromptTemplate[] {
+    try {
+        const data: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(data)
+            ? data.filter(isTemplate).map(({ id, name, body }) => ({ id, name, body }))
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Persist the user's templates; returns false when storage is unavailable or full */
+export function savePromptTemplates(templates: PromptTemplate[]): boolean {
+    try {
+        localStorage.setItem(
+            STORAGE_KEY,
+            JSON.stringify(templates.map(({ id, name, body }) => ({ id, name, body }))),
+        );
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,130 @@
+import { type FileEntry, type LanguageStats, type RepoSummary } from '../types';
+import { readText } from '../utils/encoding';
+import { formatCount, formatFileSize } from '../utils/format';
+import { languageForPath } from '../utils/languages';
+import { manifestKindOf, parseManifest, type Manifest } from '../utils/manifests';
+import { countLines, projectNameOf, totalSizeOf } from '../utils/projectInfo';
+import { buildTree, renderAsciiTree } from '../utils/treeBuilder';
+import { type UploadedFile } from './projectScanner';
+
+/* The optional preamble of every export: what the project is made of, its
+   biggest files, the dependencies its manifests declare and its layout. */
+
+const LARGEST_FILES = 10;
+
+/**
+ * Manifests anywhere in the upload, selected or not – pyproject.toml and
+ * go.mod are not code files and rarely part of the selection. Files left
+ * out by ignore rules (node_modules/*) are skipped.
+ */
+export async function collectManifests(files: UploadedFile[]): Promise<Manifest[]> {
+    const manifests: Manifest[] = [];
+    for (const f of files) {
+        if (!manifestKindOf(f.path) || f.excluded?.kind === 'ignored' || f.encoding === 'binary') continue;
+        const manifest = parseManifest(f.path, await readText(f.fle, f.encoding ?? 'utf-8').catch(() => ''));
+        if (manifest) manifests.push(manifest);
+    }
+    return manifests;
+}
+
+/** Summary of the exported files as they will appear in the export */
+export async function buildRepoSummary(files: FileEntry[], manifests: Manifest[]): Promise<RepoSummary> {
+    const languages = new Map<string, LanguageStats>();
+    const sized: RepoSummary['largest'] = [];
+    let totalLines = 0;
+
+    for (const file of files) {
+        const lines = countLines(await file.getText().catch(() => ''));
+        const language = languageForPath(file.path);
+        const stats = languages.get(language) ?? { language, files: 0, lines: 0 };
+        stats.files++;
+        stats.lines += lines;
+        languages.set(language, stats);
+        sized.push({ path: file.path, size: file.size, lines });
+        totalLines += lines;
+    }
+
+    return {
+        project: projectNameOf(files),
+        fileCount: files.length,
+        totalSize: totalSizeOf(files),
+        totalLines,
+        languages: [...languages.values()].sort((a, b) => b.lines - a.lines || b.files - a.files),
+        largest: sized.sort((a, b) => b.size - a.size).slice(0, LARGEST_FILES),
+        manifests,
+        tree: renderAsciiTree(buildTree(files)),
+    };
+}
+
+/* ── rendering ───────────────────────────────────────────────────────── */
+
+/** “2026-10-18 14:02 UTC” – the same on every machine */
+export function formatModified(ms: number): string {
+    return `${new Date(ms).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/** “120 lines · 3.21 KB · modified 2026-10-18 14:02 UTC” for a file section */
+export function fileMetaLine(file: FileEntry, content: string): string {
+    return [
+        `${formatCount(countLines(content))} lines`,
+        formatFileSize(file.size),
+        file.lastModified !== undefined ? `modified ${formatModified(file.lastModified)}` : '',
+    ]
+        .filter(Boolean)
+        .join(' · ');
+}
+
+/** “react ^19.1.0, vite ^7.0.4” per dependency group */
+export function dependencyGroups(manifest: Manifest): [group: string, list: string][] {
+    const groups = new Map<string, string[]>();
+    for (const dep of manifest.dependencies) {
+        const list = groups.get(dep.group) ?? [];
+        list.push(dep.version ? `${dep.name} ${dep.version}` : dep.name);
+        groups.set(dep.group, list);
+    }
+    return [...groups].map(([group, list]) => [group, list.join(', ')]);
+}
+
+/** “package.json (npm: codeparse 0.0.0)” */
+export function manifestTitle(manifest: Manifest): string {
+    const id = [manifest.name, manifest.version].filter(Boolean).join(' ');
+    return `${manifest.path} (${manifest.kind}${id && `: ${id}`})`;
+}
+
+/* Left-aligned first column, right-aligned numbers */
+function table(rows: string[][]): string[] {
+    if (!rows.length) return [];
+    const widths = rows[0].map((_, col) => Math.max(...rows.map((r) => r[col].length)));
+    const pad = (cell: string, col: number) =>
+        col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]);
+    return rows.map((row) => `  ${row.map(pad).join('  ')}`);
+}
+
+/** Plain-text preamble shared by the TXT and PDF exports */
+export function summaryLines(summary: RepoSummary): string[] {
+    const lines = [
+        `Repository summary${summary.project && `: ${summary.project}`}`,
+        `${formatCount(summary.fileCount)} files · ${formatCount(summary.totalLines)} lines · ` +
+            formatFileSize(summary.totalSize),
+        '',
+        'Languages:',
+        ...table([
+            ['language', 'files', 'lines'],
+            ...summary.languages.map((l) => [l.language, formatCount(l.files), formatCount(l.lines)]),
+        ]),
+        '',
+        'Largest files:',
+        ...table(summary.largest.map((f) => [f.path, formatFileSize(f.size), `${formatCount(f.lines)} lines`])),
+    ];
+
+    if (summary.manifests.length) {
+        lines.push('', 'Manifests:');
+        for (const manifest of summary.manifests) {
+            lines.push(`  ${manifestTitle(manifest)}`);
+            for (const [group, list] of dependencyGroups(manifest)) lines.push(`    ${group}: ${list}`);
+        }
+    }
+
+    lines.push('', 'Directory tree:', summary.tree);
+    return lines;
+}
@@ -0,0 +1,175 @@
+import { type FileEntry, type PartInfo } from '../types';
+import { countTokens, type TokenEncoding } from '../utils/tokenizer';
+
+export type SplitUnit = 'tokens' | 'bytes';
+
+export interface SplitOptions {
+    unit: SplitUnit;
+    budget: number;             // per part, in `unit`
+    encoding: TokenEncoding;    // only used when unit === 'tokens'
+}
+
+export interface ExportPart {
+    info: PartInfo;
+    files: FileEntry[];
+}
+
+interface PendingPart {
+    files: FileEntry[];
+    labels: string[];
+    used: number;
+}
+
+const utf8 = new TextEncoder();
+
+export function measure(text: string, options: SplitOptions): number {
+    return options.unit === 'tokens'
+        ? countTokens(text, options.encoding)
+        : utf8.encode(text).length;
+}
+
+/* What a part costs besides file contents, reserved up front. All split
+   formats share the same parts, so the larger of the Markdown and XML
+   framings is measured: the part header (four-digit part numbers – the
+   count is not known yet), section headings, and per file a header entry,
+   tree lines for it and its folder, a link or attributes, and a fence. */
+const PART_FRAMES = [
+    '# Codebase Export\n\n' +
+        `${partHeaderLines({ index: 9999, total: 9999, files: [] }).map((l) => `> ${l}`).join('\n')}\n\n` +
+        '## Directory Structure\n\n```text\n```\n\n## Table of Contents\n\n\n## Files\n\n',
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<codebase name="" generated="2000-01-01T00:00:00.000Z" file_count="9999" total_size="999999999">\n' +
+        '  <part index="9999" total="9999">\n  </part>\n  <directory_structure>\n  </directory_structure>\n' +
+        '  <files>\n  </files>\n</codebase>\n',
+];
+
+const fileFrames = (path: string, label: string) => {
+    const dir = path.slice(0, path.lastIndexOf('/') + 1);
+    return [
+        `\n> - ${label}\n│   ├── ${dir}\n│   │   ├── ${path}\n9999. [${path}](#${path})\n` +
+            `<a id="${path}"></a>\n\n### \`${path}\`\n\n\`\`\`typescript\n\n\`\`\`\n\n`,
+        `    <file_ref>${label}</file_ref>\n      <directory name="${dir}">\n      </directory>\n` +
+            `        <file name="${path}" size="999999999"/>\n` +
+            `    <file path="${path}" size="999999999" language="typescript" lines="99999" encoding="utf-8" ` +
+            'modified="2000-01-01T00:00:00.000Z"><![CDATA[]]></file>\n',
+    ];
+};
+
+const partFrameCost = (options: SplitOptions) =>
+    Math.max(...PART_FRAMES.map((frame) => measure(frame, options)));
+const fileFrameCost = (path: string, label: string, options: SplitOptions) =>
+    Math.max(...fileFrames(path, label).map((frame) => measure(frame, options)));
+
+/* Group lines into chunks that each stay within the budget. A single line
+   longer than the budget still becomes its own chunk. */
+function chunkLines(lines: string[], options: SplitOptions): { from: number; to: number }[] {
+    const chunks: { from: number; to: number }[] = [];
+    let from = 0;
+    let used = 0;
+
+    lines.forEach((line, idx) => {
+        const cost = measure(`${line}\n`, options);
+        if (used + cost > options.budget && idx > from) {
+            chunks.push({ from, to: idx });
+            from = idx;
+            used = 0;
+        }
+        used += cost;
+    });
+    chunks.push({ from, to: lines.length });
+
+    return chunks;
+}
+
+/**
+ * Distribute files over parts that each fit `budget`. Files are never cut
+ * unless one alone exceeds the budget; such a file is split at line
+ * boundaries and every slice carries a continuation marker. Each part's
+ * header and framing count against the budget; `reserved` is budget also
+ * taken in the first part, e.g. by a summary preamble.
+ */
+export async function splitIntoParts(
+    files: FileEntry[],
+    options: SplitOptions,
+    reserved = 0,
+): Promise<ExportPart[]> {
+    const pending: PendingPart[] = [];
+    const header = partFrameCost(options);
+    let current: PendingPart = { files: [], labels: [], used: header + reserved };
+
+    const close = () => {
+        if (current.files.length) pending.push(current);
+        current = { files: [], labels: [], used: header };
+    };
+
+    for (const file of files) {
+        const text = await file.getText().catch(() => '');
+        /* Headings, links and fences around every file cost a little as well */
+        const cost =
+            measure(text, options) +
+            fileFrameCost(file.path, file.path, options) +
+            (file.diff ? measure(file.diff.text, options) : 0);
+
+        if (header + cost <= options.budget) {
+            if (current.used + cost > options.budget) close();
+            current.files.push(file);
+            current.labels.push(file.path);
+            current.used += cost;
+            continue;
+        }
+
+        /* Oversized file – its slices get parts of their own */
+        close();
+        const lines = text.split('\n');
+        /* Each slice shares its part with the header, its label and the markers */
+        const n = lines.length;
+        const overhead =
+            header +
+            fileFrameCost(file.path, `${file.path} (lines ${n}-${n} of ${n})`, options) +
+            measure(`[… continued from the previous part: ${file.path}, lines ${n}-${n} of ${n} …]\n`, options) +
+            measure(`\n[… ${file.path} continues in the next part …]`, options);
+        const chunks = chunkLines(lines, { ...options, budget: Math.max(1, options.budget - overhead) });
+
+        chunks.forEach(({ from, to }, idx) => {
+            const range = `lines ${from + 1}-${to} of ${lines.length}`;
+            const head = idx > 0 ? `[… continued from the previous part: ${file.path}, ${range} …]\n` : '';
+            const tail = idx < chunks.length - 1 ? `\n[… ${file.path} continues in the next part …]` : '';
+            const slice = `${head}${lines.slice(from, to).join('\n')}${tail}`;
+
+            current.files.push({
+                path: file.path,
+                size: utf8.encode(slice).length,
+                encoding: file.encoding,
+                outlined: file.outlined,
+                imports: file.imports,
+                lastModified: file.lastModified,
+                duplicateOf: file.duplicateOf,
+                /* The diff follows the last slice */
+                diff: idx === chunks.length - 1 ? file.diff : undefined,
+                getText: async () => slice,
+            });
+            current.labels.push(`${file.path} (${range})`);
+            /* The last slice may share its part with the files that follow */
+            if (idx < chunks.length - 1) close();
+            else {
+                current.used =
+                    header + measure(slice, options) + fileFrameCost(file.path, current.labels[0], options);
+            }
+        });
+    }
+    close();
+
+    return pending.map((part, idx) => ({
+        info: { index: idx + 1, total: pending.length, files: part.labels },
+        files: part.files,
+    }));
+}
+
+/** Plain-text part header shared by the text-like builders */
+export function partHeaderLines(part: PartInfo): string[] {
+    return [
+        `Part ${part.index} of ${part.total}`,
+        'Files in this part:',
+        ...part.files.map((f) => `- ${f}`),
+    ];
+}
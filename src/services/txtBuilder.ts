@@ -1,13 +1,47 @@
-import { type FileEntry } from '../types';
+import { type BuildOptions, type FileEntry } from '../types';
+import { fileNote } from '../utils/outline';
+import { importGraphLines } from './dependencyGraph';
+import { PREVIEW_CHARS } from './exportFormats';
+import { fileMetaLine, summaryLines } from './repoSummary';
+import { partHeaderLines } from './splitter';
 
 export interface TxtBuildResult {
     blob: Blob;
-    text: string;
+    preview: string;    // head of the output (PREVIEW_CHARS + 1 characters at most)
 }
 
+/* Pending text is moved into a Blob part every ~1 MB so the browser can page
+   it out instead of holding one giant string */
+const FLUSH_CHARS = 1024 * 1024;
+
 /** Builds a single fence-delimited TXT concatenation of all selected files */
-export async function buildTxt(files: FileEntry[]): Promise<TxtBuildResult> {
-    const pieces: string[] = [];
+export async function buildTxt(
+    files: FileEntry[],
+    options: BuildOptions = {},
+): Promise<TxtBuildResult> {
+    const blobParts: Blob[] = [];
+    let pieces: string[] = [];
+    let pendingChars = 0;
+    let preview = '';
+
+    /* One character beyond PREVIEW_CHARS tells the caller the output was cut */
+    const previewLimit = PREVIEW_CHARS + 1;
+    const write = (piece: string) => {
+        if (preview.length < previewLimit) preview += piece.slice(0, previewLimit - preview.length);
+        pieces.push(piece);
+        pendingChars += piece.length;
+        if (pendingChars >= FLUSH_CHARS) {
+            blobParts.push(new Blob(pieces));
+            pieces = [];
+            pendingChars = 0;
+        }
+    };
+
+    if (options.part) write(`${partHeaderLines(options.part).join('\n')}\n\n`);
+    if (options.summary) write(`${summaryLines(options.summary).join('\n')}\n\n`);
+
+    const graph = importGraphLines(files);
+    if (graph.length) write(`Import graph (file → files it imports):\n${graph.join('\n')}\n\n`);
 
     for (const file of files) {
         const content = await file
@@ -17,12 +51,17 @@ export async function buildTxt(files: FileEntry[]): Promise<TxtBuildResult> {
                     `[Error reading file: ${e instanceof Error ? e.message : String(e)}]`,
             );
 
-        pieces.push(`\`\`\`${file.path}\n${content}\n\`\`\`\n\n`);
+        const note = fileNote(file);
+        if (options.fileMetadata) write(`${file.path}: ${fileMetaLine(file, content)}\n`);
+        write(`\`\`\`${file.path}${note && ` ${note}`}\n${content}\n\`\`\`\n\n`);
+        if (file.diff) {
+            write(`\`\`\`diff ${file.path} (changes since ${file.diff.base})\n${file.diff.text}\`\`\`\n\n`);
+        }
     }
 
-    const text = pieces.join('');
+    blobParts.push(new Blob(pieces));
     return {
-        text,
-        blob: new Blob([text], { type: 'text/plain;charset=utf-8' }),
+        preview,
+        blob: new Blob(blobParts, { type: 'text/plain;charset=utf-8' }),
     };
 }
\ No newline at end of file
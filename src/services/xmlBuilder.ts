@@ -0,0 +1,152 @@
+import { type BuildOptions, type FileEntry, type RepoSummary } from '../types';
+import { languageForPath } from '../utils/languages';
+import { countLines, projectNameOf, totalSizeOf } from '../utils/projectInfo';
+import { buildTree, type TreeNode } from '../utils/treeBuilder';
+
+export interface XmlBuildResult {
+    blob: Blob;
+    text: string;
+}
+
+/* Characters XML 1.0 cannot carry at all, not even escaped */
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXmlAttr(value: string): string {
+    return value
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/* A CDATA section ends at the first “]]>”, so split any occurrence across two sections */
+export function wrapCdata(text: string): string {
+    const safe = text.replace(INVALID_XML_CHARS, '').replaceAll(']]>', ']]]]><![CDATA[>');
+    return `<![CDATA[${safe}]]>`;
+}
+
+function renderStructure(nodes: TreeNode[], indent: string): string[] {
+    return nodes.flatMap((node) => {
+        const name = escapeXmlAttr(node.name);
+        if (node.type === 'file') {
+            return [`${indent}<file name="${name}" size="${node.size ?? 0}"/>`];
+        }
+        return [
+            `${indent}<directory name="${name}">`,
+            ...renderStructure(node.children ?? [], `${indent}  `),
+            `${indent}</directory>`,
+        ];
+    });
+}
+
+/* <import_graph> with one <imports from="…"> element per importing file */
+function importGraphXml(files: FileEntry[]): string[] {
+    const seen = new Set<string>();
+    const lines = files.flatMap((f) => {
+        if (!f.imports?.length || seen.has(f.path)) return [];
+        seen.add(f.path);
+        return [
+            `    <imports from="${escapeXmlAttr(f.path)}">\n`,
+            ...f.imports.map((to) => `      <import path="${escapeXmlAttr(to)}"/>\n`),
+            '    </imports>\n',
+        ];
+    });
+    return lines.length ? ['  <import_graph>\n', ...lines, '  </import_graph>\n'] : [];
+}
+
+/* <summary> with language stats, the largest files and the manifests'
+   dependencies; the tree is <directory_structure> already */
+function summaryXml(summary: RepoSummary): string[] {
+    return [
+        `  <summary files="${summary.fileCount}" lines="${summary.totalLines}" total_size="${summary.totalSize}">\n`,
+        '    <languages>\n',
+        ...summary.languages.map(
+            (l) => `      <language name="${escapeXmlAttr(l.language)}" files="${l.files}" lines="${l.lines}"/>\n`,
+        ),
+        '    </languages>\n',
+        '    <largest_files>\n',
+        ...summary.largest.map(
+            (f) => `      <file path="${escapeXmlAttr(f.path)}" size="${f.size}" lines="${f.lines}"/>\n`,
+        ),
+        '    </largest_files>\n',
+        '    <manifests>\n',
+        ...summary.manifests.flatMap((m) => [
+            `      <manifest ${[
+                `path="${escapeXmlAttr(m.path)}"`,
+                `kind="${m.kind}"`,
+                m.name ? `name="${escapeXmlAttr(m.name)}"` : '',
+                m.version ? `version="${escapeXmlAttr(m.version)}"` : '',
+            ].filter(Boolean).join(' ')}>\n`,
+            ...m.dependencies.map(
+                (d) =>
+                    `        <dependency name="${escapeXmlAttr(d.name)}" version="${escapeXmlAttr(d.version)}"` +
+                    ` group="${escapeXmlAttr(d.group)}"/>\n`,
+            ),
+            '      </manifest>\n',
+        ]),
+        '    </manifests>\n',
+        '  </summary>\n',
+    ];
+}
+
+/** Builds a Repomix-style XML document with one <file> element per entry */
+export async function buildXml(
+    files: FileEntry[],
+    options: BuildOptions = {},
+): Promise<XmlBuildResult> {
+    const project = projectNameOf(files);
+    const { part } = options;
+
+    const pieces: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>\n',
+        `<codebase name="${escapeXmlAttr(project)}" generated="${new Date().toISOString()}"` +
+            ` file_count="${files.length}" total_size="${totalSizeOf(files)}">\n`,
+        ...(part
+            ? [
+                  `  <part index="${part.index}" total="${part.total}">\n`,
+                  ...part.files.map((f) => `    <file_ref>${escapeXmlAttr(f)}</file_ref>\n`),
+                  '  </part>\n',
+              ]
+            : []),
+        ...(options.summary ? summaryXml(options.summary) : []),
+        '  <directory_structure>\n',
+        ...renderStructure(buildTree(files), '    ').map((line) => `${line}\n`),
+        '  </directory_structure>\n',
+        ...importGraphXml(files),
+        '  <files>\n',
+    ];
+
+    for (const file of files) {
+        const content = await file
+            .getText()
+            .catch(
+                (e) =>
+                    `[Error reading file: ${e instanceof Error ? e.message : String(e)}]`,
+            );
+
+        const attrs = [
+            `path="${escapeXmlAttr(file.path)}"`,
+            `size="${file.size}"`,
+            `language="${languageForPath(file.path)}"`,
+            `lines="${countLines(content)}"`,
+            `encoding="${file.encoding}"`,
+            options.fileMetadata && file.lastModified !== undefined
+                ? `modified="${new Date(file.lastModified).toISOString()}"`
+                : '',
+            file.outlined ? 'outline="true"' : '',
+            file.duplicateOf ? `duplicate_of="${escapeXmlAttr(file.duplicateOf)}"` : '',
+        ].filter(Boolean).join(' ');
+
+        pieces.push(`    <file ${attrs}>${wrapCdata(content)}</file>\n`);
+    }
+
+    pieces.push('  </files>\n', '</codebase>\n');
+
+    const text = pieces.join('');
+    return {
+        text,
+        blob: new Blob([text], { type: 'application/xml;charset=utf-8' }),
+    };
+}
@@ -0,0 +1,37 @@
+import { sha256Hex } from '../utils/hash';
+import { createZip } from '../utils/zipWriter';
+import { type GeneratedArtifact } from './exportFormats';
+
+export const BUNDLE_FILENAME = 'codebase-export.zip';
+export const MANIFEST_FILENAME = 'manifest.json';
+
+export interface BundleManifest {
+    generatedAt: string;
+    files: {
+        name: string;
+        format: string;
+        part?: { index: number; total: number };
+        size: number;
+        sha256: string;
+    }[];
+}
+
+/** Zip every generated artifact together with a manifest of names and hashes */
+export async function buildZipBundle(artifacts: GeneratedArtifact[]): Promise<Blob> {
+    const manifest: BundleManifest = { generatedAt: new Date().toISOString(), files: [] };
+
+    for (const artifact of artifacts) {
+        manifest.files.push({
+            name: artifact.filename,
+            format: artifact.format,
+            part: artifact.part && { index: artifact.part.index, total: artifact.part.total },
+            size: artifact.blob.size,
+            sha256: await sha256Hex(await artifact.blob.arrayBuffer()),
+        });
+    }
+
+    return createZip([
+        { name: MANIFEST_FILENAME, data: JSON.stringify(manifest, null, 2) },
+        ...artifacts.map((a) => ({ name: a.filename, data: a.blob })),
+    ]);
+}
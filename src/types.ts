@@ -1,5 +1,63 @@
+import { type FileEncoding } from './utils/encoding';
+import { type IgnoreRule } from './utils/ignoreRules';
+import { type Manifest } from './utils/manifests';
+
 export interface FileEntry {
     path: string;                     // relative file-path in the project
     size: number;                     // length in bytes
-    getText: () => Promise<string>;   // lazy UTF-8 reader
-}
\ No newline at end of file
+    encoding: FileEncoding;           // detected charset ('binary' → stubbed text)
+    getText: () => Promise<string>;   // lazy reader, decoded from `encoding`
+    outlined?: boolean;               // signatures only, bodies replaced with “…”
+    diff?: FileDiff;                  // changes since a git commit (TXT and Markdown only)
+    imports?: string[];               // exported files this one imports (import graph section)
+    lastModified?: number;            // ms since epoch, shown in the per-file metadata line
+    duplicateOf?: string;             // identical to this exported file, content not repeated
+}
+
+export interface FileDiff {
+    base: string;       // ref the diff was taken against, e.g. “HEAD” or “main”
+    text: string;       // unified diff, already redacted
+}
+
+/* Why a scanned file is not part of the default selection */
+export type ExclusionReason =
+    | { kind: 'ignored'; rule: IgnoreRule }       // matched an ignore file
+    | { kind: 'extension' }                       // failed the code-extension filter
+    | { kind: 'binary' }                          // not readable as text
+    | { kind: 'too-large'; limit: number }        // above the per-file size limit
+    | { kind: 'vendored'; dir: string }           // below a vendor/ or third_party/ directory
+    | { kind: 'generated'; marker: string }       // generated-code marker in its header
+    | { kind: 'minified' }                        // long lines with hardly any whitespace
+    | { kind: 'duplicate'; of: string };          // same content as an earlier file
+
+/* Position of one output file when an export is split into several parts */
+export interface PartInfo {
+    index: number;      // 1-based
+    total: number;
+    files: string[];    // paths (with line ranges for split files) in this part
+}
+
+/* Overview of the whole export, rendered as a preamble before the files */
+export interface RepoSummary {
+    project: string;                  // root folder name
+    fileCount: number;
+    totalSize: number;                // bytes
+    totalLines: number;
+    languages: LanguageStats[];       // most lines first
+    largest: { path: string; size: number; lines: number }[];
+    manifests: Manifest[];            // package.json, pyproject.toml, go.mod, Cargo.toml
+    tree: string;                     // ASCII directory tree
+}
+
+export interface LanguageStats {
+    language: string;
+    files: number;
+    lines: number;
+}
+
+/* Options every builder understands */
+export interface BuildOptions {
+    part?: PartInfo;            // render a “part k of N” header
+    summary?: RepoSummary;      // render the repository summary preamble
+    fileMetadata?: boolean;     // lines, size and modification time for every file
+}
@@ -0,0 +1,212 @@
+import { type PickedFile } from './folderInput';
+
+/* Minimal readers for project archives – ZIP (incl. ZIP64 sizes), .tar and
+   .tar.gz – decompressed with the browser's DecompressionStream. Entries come
+   out like an uploaded folder: one root directory followed by the path. */
+
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz', '.tar'];
+
+export const ARCHIVE_ACCEPT = ARCHIVE_EXTENSIONS.join(',');
+
+export const isArchiveName = (name: string): boolean =>
+    ARCHIVE_EXTENSIONS.some((ext) => name.toLowerCase().endsWith(ext));
+
+/* “repo-main.tar.gz” → “repo-main” */
+const archiveBaseName = (name: string): string => {
+    const ext = ARCHIVE_EXTENSIONS.find((e) => name.toLowerCase().endsWith(e)) ?? '';
+    return name.slice(0, name.length - ext.length) || 'archive';
+};
+
+const utf8 = new TextDecoder();
+
+async function decompress(data: Blob, format: CompressionFormat): Promise<Uint8Array> {
+    const stream = data.stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/* ── ZIP ─────────────────────────────────────────────────────────────── */
+
+const SIG_EOCD = 0x06054b50;
+const SIG_ZIP64_LOCATOR = 0x07064b50;
+const SIG_CENTRAL = 0x02014b50;
+const FLAG_ENCRYPTED = 0x0001;
+const EXTRA_ZIP64 = 0x0001;
+
+interface ZipRecord {
+    name: string;
+    method: number;
+    flags: number;
+    compressedSize: number;
+    size: number;
+    localOffset: number;
+}
+
+async function bytesOf(blob: Blob, start: number, end: number): Promise<DataView> {
+    return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+/* Sizes/offsets stored as 0xFFFFFFFF live in the ZIP64 extra field, in this order */
+function applyZip64(record: ZipRecord, extra: DataView) {
+    for (let at = 0; at + 4 <= extra.byteLength; ) {
+        const id = extra.getUint16(at, true);
+        const length = extra.getUint16(at + 2, true);
+        if (id === EXTRA_ZIP64) {
+            let field = at + 4;
+            const next = () => {
+                const value = Number(extra.getBigUint64(field, true));
+                field += 8;
+                return value;
+            };
+            if (record.size === 0xffffffff) record.size = next();
+            if (record.compressedSize === 0xffffffff) record.compressedSize = next();
+            if (record.localOffset === 0xffffffff) record.localOffset = next();
+            return;
+        }
+        at += 4 + length;
+    }
+}
+
+async function centralDirectory(zip: Blob): Promise<ZipRecord[]> {
+    /* The end record sits in the last 22 bytes plus an optional comment (≤ 64 KB) */
+    const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+    const tail = await bytesOf(zip, tailStart, zip.size);
+    let eocd = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === SIG_EOCD) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('Not a ZIP archive (no end of central directory)');
+
+    let count = tail.getUint16(eocd + 10, true);
+    let dirSize = tail.getUint32(eocd + 12, true);
+    let dirOffset = tail.getUint32(eocd + 16, true);
+
+    if (eocd >= 20 && tail.getUint32(eocd - 20, true) === SIG_ZIP64_LOCATOR) {
+        const recordOffset = Number(tail.getBigUint64(eocd - 12, true));
+        const record = await bytesOf(zip, recordOffset, recordOffset + 56);
+        count = Number(record.getBigUint64(32, true));
+        dirSize = Number(record.getBigUint64(40, true));
+        dirOffset = Number(record.getBigUint64(48, true));
+    }
+
+    const dir = await bytesOf(zip, dirOffset, dirOffset + dirSize);
+    const records: ZipRecord[] = [];
+    for (let at = 0, i = 0; i < count; i++) {
+        if (dir.getUint32(at, true) !== SIG_CENTRAL) throw new Error('Corrupt ZIP central directory');
+        const nameLength = dir.getUint16(at + 28, true);
+        const extraLength = dir.getUint16(at + 30, true);
+        const commentLength = dir.getUint16(at + 32, true);
+        const nameStart = dir.byteOffset + at + 46;
+
+        const record: ZipRecord = {
+            name: utf8.decode(new Uint8Array(dir.buffer, nameStart, nameLength)),
+            flags: dir.getUint16(at + 8, true),
+            method: dir.getUint16(at + 10, true),
+            compressedSize: dir.getUint32(at + 20, true),
+            size: dir.getUint32(at + 24, true),
+            localOffset: dir.getUint32(at + 42, true),
+        };
+        applyZip64(record, new DataView(dir.buffer, nameStart + nameLength, extraLength));
+        records.push(record);
+        at += 46 + nameLength + extraLength + commentLength;
+    }
+    return records;
+}
+
+async function readZip(zip: Blob): Promise<PickedFile[]> {
+    const files: PickedFile[] = [];
+    for (const record of await centralDirectory(zip)) {
+        if (record.name.endsWith('/')) continue;            // directory entry
+        if (record.flags & FLAG_ENCRYPTED) throw new Error(`${record.name} is encrypted`);
+
+        /* The local header repeats name and extra field with its own lengths */
+        const local = await bytesOf(zip, record.localOffset, record.localOffset + 30);
+        const dataStart = record.localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = zip.slice(dataStart, dataStart + record.compressedSize);
+
+        let bytes: Blob | Uint8Array;
+        if (record.method === 0) bytes = data;
+        else if (record.method === 8) bytes = await decompress(data, 'deflate-raw');
+        else throw new Error(`${record.name} uses unsupported compression method ${record.method}`);
+
+        const name = record.name.split('/').pop()!;
+        files.push({ file: new File([bytes], name), path: record.name.replace(/^\.?\//, '') });
+    }
+    return files;
+}
+
+/* ── tar / tar.gz ────────────────────────────────────────────────────── */
+
+const BLOCK = 512;
+
+const field = (block: Uint8Array, start: number, length: number) => {
+    const raw = block.subarray(start, start + length);
+    const end = raw.indexOf(0);
+    return utf8.decode(end === -1 ? raw : raw.subarray(0, end));
+};
+
+const octal = (block: Uint8Array, start: number, length: number) =>
+    parseInt(field(block, start, length).trim() || '0', 8);
+
+/* “27 path=some/long/name\n” records of a PAX extended header */
+function paxPath(data: Uint8Array): string | undefined {
+    const text = utf8.decode(data);
+    return /(?:^|\n)\d+ path=([^\n]*)\n/.exec(text)?.[1];
+}
+
+function readTar(tar: Uint8Array): PickedFile[] {
+    const files: PickedFile[] = [];
+    let longName: string | undefined;     // from a GNU “L” or PAX “x” header
+
+    for (let at = 0; at + BLOCK <= tar.length; ) {
+        const header = tar.subarray(at, at + BLOCK);
+        if (header.every((b) => b === 0)) break;                 // end-of-archive marker
+
+        const size = octal(header, 124, 12);
+        const type = String.fromCharCode(header[156] || 48);      // NUL means a regular file
+        const data = tar.subarray(at + BLOCK, at + BLOCK + size);
+        at += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+        if (type === 'L') {
+            longName = field(data, 0, data.length);
+            continue;
+        }
+        if (type === 'x') {
+            longName = paxPath(data) ?? longName;
+            continue;
+        }
+        if (type !== '0' && type !== '7') {                      // dirs, links, global headers …
+            longName = undefined;
+            continue;
+        }
+
+        const prefix = field(header, 345, 155);
+        const name = longName ?? (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100));
+        longName = undefined;
+
+        const path = name.replace(/^\.?\//, '');
+        files.push({ file: new File([data], path.split('/').pop()!), path });
+    }
+    return files;
+}
+
+/**
+ * Files of a .zip, .tar or .tar.gz. An archive with a single top-level
+ * directory (GitHub’s “repo-main/”) uses it as the project root, just like
+ * an uploaded folder; otherwise the archive’s own name becomes the root.
+ */
+export async function readArchive(archive: File): Promise<PickedFile[]> {
+    const name = archive.name.toLowerCase();
+    let files: PickedFile[];
+    if (name.endsWith('.zip')) files = await readZip(archive);
+    else if (name.endsWith('.tar')) files = readTar(new Uint8Array(await archive.arrayBuffer()));
+    else files = readTar(await decompress(archive, 'gzip'));
+
+    const roots = new Set(files.map((f) => (f.path.includes('/') ? f.path.split('/')[0] : '')));
+    if (roots.size === 1 && !roots.has('')) return files;
+
+    const root = archiveBaseName(archive.name);
+    return files.map((f) => ({ ...f, path: `${root}/${f.path}` }));
+}
@@ -0,0 +1,66 @@
+import { type ExclusionReason } from '../types';
+
+/* Heuristics for text files that are rarely worth an LLM's context:
+   vendored copies of other projects, generated code and minified bundles. */
+
+const VENDOR_DIRS = new Set([
+    'vendor', 'vendors', 'vendored', 'third_party', 'third-party', 'thirdparty', 'bower_components',
+]);
+
+/** “lib/vendor/” when a directory of `relPath` holds vendored code */
+export function vendoredDir(relPath: string): string | undefined {
+    const dirs = relPath.split('/').slice(0, -1);
+    const idx = dirs.findIndex((dir) => VENDOR_DIRS.has(dir.toLowerCase()));
+    return idx === -1 ? undefined : `${dirs.slice(0, idx + 1).join('/')}/`;
+}
+
+/* Markers go into a comment near the top; requiring a comment keeps code
+   that merely mentions them (like this file) from being flagged */
+const GENERATED_HEAD_CHARS = 4000;
+const COMMENT_LINE = String.raw`^[ \t]*(?:\/\/|\/\*|\*|#|--|<!--|;)`;
+const GENERATED_MARKERS: [label: string, pattern: RegExp][] = [
+    ['@generated', new RegExp(`${COMMENT_LINE}.*@generated\\b`, 'm')],
+    ['Code generated … DO NOT EDIT', /^\/\/ Code generated .* DO NOT EDIT\.\r?$/m],
+    ['<auto-generated>', new RegExp(`${COMMENT_LINE}.*<auto-generated`, 'm')],
+];
+
+/** The generated-code marker in the head of `text`, if any */
+export function generatedMarker(text: string): string | undefined {
+    const head = text.slice(0, GENERATED_HEAD_CHARS);
+    return GENERATED_MARKERS.find(([, pattern]) => pattern.test(head))?.[0];
+}
+
+/* Minified code has very long lines and almost no whitespace; prose with
+   long paragraphs has long lines too, but a space every few characters */
+const MINIFIED_MIN_CHARS = 1000;
+const MINIFIED_MEAN_LINE = 200;
+const MINIFIED_MAX_WHITESPACE = 0.1;
+
+export function looksMinified(name: string, text: string): boolean {
+    if (/\.min\.(?:js|mjs|css)$/i.test(name)) return true;
+    if (text.length < MINIFIED_MIN_CHARS) return false;
+
+    const lines = text.split('\n').length;
+    const whitespace = text.match(/\s/g)?.length ?? 0;
+    return text.length / lines > MINIFIED_MEAN_LINE && whitespace / text.length < MINIFIED_MAX_WHITESPACE;
+}
+
+/** Why a readable file should still stay out of the default selection */
+export function flagContent(name: string, text: string): ExclusionReason | undefined {
+    const marker = generatedMarker(text);
+    if (marker) return { kind: 'generated', marker };
+    if (looksMinified(name, text)) return { kind: 'minified' };
+    return undefined;
+}
+
+/* Flagged by these heuristics rather than by rules: shown in the tree even
+   while excluded files are hidden, so nothing disappears silently */
+export const isFlagged = (reason: ExclusionReason | undefined): boolean =>
+    reason?.kind === 'vendored' ||
+    reason?.kind === 'generated' ||
+    reason?.kind === 'minified' ||
+    reason?.kind === 'duplicate';
+
+/** Content exported for a copy whose original is part of the same export */
+export const duplicateReference = (original: string): string =>
+    `[Identical to ${original} – content not repeated]`;
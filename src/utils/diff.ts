@@ -0,0 +1,139 @@
+/* Line-based unified diffs (Myers' O(ND) algorithm), in the format of
+   `git diff`: `---`/`+++` headers and `@@` hunks with 3 lines of context. */
+
+type Op = { kind: ' ' | '-' | '+'; line: string };
+
+const CONTEXT_LINES = 3;
+
+/* Beyond this many edits the changed region is shown as replaced wholesale */
+const MAX_EDITS = 2000;
+
+const NO_NEWLINE = '\n\\ No newline at end of file';
+
+/* A last line without a newline differs from the same line with one, and
+   carries git's marker into the output */
+function toLines(text: string): string[] {
+    if (!text) return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    else lines[lines.length - 1] += NO_NEWLINE;
+    return lines;
+}
+
+/* Shortest edit script between a and b, or null when it needs > MAX_EDITS */
+function myers(a: string[], b: string[]): Op[] | null {
+    const n = a.length;
+    const m = b.length;
+    const offset = Math.min(n + m, MAX_EDITS) + 1;
+    const v = new Int32Array(2 * offset + 1);
+    const trace: Int32Array[] = [];
+
+    let edits = -1;
+    search: for (let d = 0; d <= n + m && d <= MAX_EDITS; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                edits = d;
+                break search;
+            }
+        }
+    }
+    if (edits === -1) return null;
+
+    /* Walk the trace backwards from the end to recover the path */
+    const ops: Op[] = [];
+    let x = n;
+    let y = m;
+    for (let d = edits; d > 0; d--) {
+        const prev = trace[d];
+        const at = (k: number) => prev[k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        for (; x > prevX && y > prevY; y--) ops.push({ kind: ' ', line: a[--x] });
+        if (x === prevX) ops.push({ kind: '+', line: b[--y] });
+        else ops.push({ kind: '-', line: a[--x] });
+    }
+    while (x > 0) ops.push({ kind: ' ', line: a[--x] });
+    return ops.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+    /* Common head and tail never need the search */
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (
+        tail < a.length - head &&
+        tail < b.length - head &&
+        a[a.length - 1 - tail] === b[b.length - 1 - tail]
+    ) tail++;
+
+    const midA = a.slice(head, a.length - tail);
+    const midB = b.slice(head, b.length - tail);
+    const middle = myers(midA, midB) ?? [
+        ...midA.map((line) => ({ kind: '-' as const, line })),
+        ...midB.map((line) => ({ kind: '+' as const, line })),
+    ];
+    return [
+        ...a.slice(0, head).map((line) => ({ kind: ' ' as const, line })),
+        ...middle,
+        ...a.slice(a.length - tail).map((line) => ({ kind: ' ' as const, line })),
+    ];
+}
+
+/* “@@ -3,7 +3,8 @@” – an empty side points at the line before it */
+const range = (before: number, count: number) =>
+    count === 1 ? `${before + 1}` : `${count ? before + 1 : before},${count}`;
+
+/**
+ * Unified diff from `oldText` to `newText`, labelled with `path`; an empty
+ * string when the texts are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, path: string): string {
+    if (oldText === newText) return '';
+    const ops = diffLines(toLines(oldText), toLines(newText));
+
+    const changed = ops.flatMap((op, idx) => (op.kind === ' ' ? [] : [idx]));
+    if (!changed.length) return '';
+
+    const out = [`--- a/${path}`, `+++ b/${path}`];
+    let oldLine = 0;        // lines of each side before ops[cursor]
+    let newLine = 0;
+    let cursor = 0;
+    const advance = (to: number) => {
+        for (; cursor < to; cursor++) {
+            if (ops[cursor].kind !== '+') oldLine++;
+            if (ops[cursor].kind !== '-') newLine++;
+        }
+    };
+
+    for (let i = 0; i < changed.length; ) {
+        /* Changes closer than twice the context share a hunk */
+        let last = i;
+        while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * CONTEXT_LINES + 1) last++;
+        const start = Math.max(0, changed[i] - CONTEXT_LINES);
+        const end = Math.min(ops.length, changed[last] + CONTEXT_LINES + 1);
+
+        advance(start);
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter((op) => op.kind !== '+').length;
+        const newCount = hunk.filter((op) => op.kind !== '-').length;
+        out.push(`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`);
+        hunk.forEach((op) => out.push(op.kind + op.line));
+        advance(end);
+
+        i = last + 1;
+    }
+    return `${out.join('\n')}\n`;
+}
@@ -0,0 +1,105 @@
+import { formatFileSize } from './format';
+
+/* Character encodings we can tell apart without a full charset detector.
+   'windows-1252' is the Latin-1 fallback for anything that is not UTF-8. */
+export type FileEncoding =
+    | 'utf-8'
+    | 'utf-8-bom'
+    | 'utf-16le'
+    | 'utf-16be'
+    | 'windows-1252'
+    | 'binary';
+
+/* Leading window inspected for BOMs, UTF-16 and binary content */
+export const SNIFF_BYTES = 8000;
+
+/* TextDecoder labels – the BOM is stripped by the decoder itself */
+const DECODER_LABELS: Record<Exclude<FileEncoding, 'binary'>, string> = {
+    'utf-8': 'utf-8',
+    'utf-8-bom': 'utf-8',
+    'utf-16le': 'utf-16le',
+    'utf-16be': 'utf-16be',
+    'windows-1252': 'windows-1252',
+};
+
+function bomEncoding(bytes: Uint8Array): FileEncoding | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8-bom';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    return null;
+}
+
+/* BOM-less UTF-16: mostly-ASCII text has a NUL in every other byte */
+function guessUtf16(bytes: Uint8Array): FileEncoding | null {
+    const pairs = Math.floor(bytes.length / 2);
+    if (pairs < 4) return null;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+        if (bytes[i] === 0) evenZeros++;
+        if (bytes[i + 1] === 0) oddZeros++;
+    }
+
+    if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+    return null;
+}
+
+/** NUL bytes or a high share of control characters mean “not text” */
+export function looksBinary(bytes: Uint8Array): boolean {
+    if (bytes.length === 0) return false;
+
+    let control = 0;
+    for (const b of bytes) {
+        if (b === 0) return true;
+        /* tab, LF, FF, CR and ESC are common in text files */
+        if (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0c && b !== 0x0d && b !== 0x1b) {
+            control++;
+        }
+    }
+    return control / bytes.length > 0.1;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Detect how a file should be decoded. Only the leading window is read unless
+ * the file has to be validated as UTF-8 in full.
+ */
+export async function detectFileEncoding(file: Blob): Promise<FileEncoding> {
+    const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+    const marked = bomEncoding(head) ?? guessUtf16(head);
+    if (marked) return marked;
+    if (looksBinary(head)) return 'binary';
+
+    const bytes =
+        file.size > head.length ? new Uint8Array(await file.arrayBuffer()) : head;
+    return isValidUtf8(bytes) ? 'utf-8' : 'windows-1252';
+}
+
+/** Decode bytes that were already read */
+export function decodeText(bytes: BufferSource, encoding: Exclude<FileEncoding, 'binary'>): string {
+    return new TextDecoder(DECODER_LABELS[encoding]).decode(bytes);
+}
+
+/** Read a file as text using a previously detected encoding */
+export async function readText(file: Blob, encoding: FileEncoding): Promise<string> {
+    if (encoding === 'binary') {
+        return `[Binary file – ${formatFileSize(file.size)}, contents omitted]`;
+    }
+    return decodeText(await file.arrayBuffer(), encoding);
+}
+
+/** Annotation for exports – plain UTF-8 needs none */
+export function encodingNote(encoding: FileEncoding): string {
+    return encoding === 'utf-8' ? '' : `[encoding: ${encoding}]`;
+}
@@ -1,3 +1,7 @@
+import { type ExclusionReason } from '../types';
+import { formatFileSize } from './format';
+import { formatIgnoreRule } from './ignoreRules';
+
 /* List of extensions that are treated as “code” when no .gitignore is supplied */
 export const codeExtensions: string[] = [
     '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.hpp',
@@ -13,4 +17,44 @@ export function isCodeFile(fileName: string): boolean {
         codeExtensions.some((ext) => lower.endsWith(ext)) ||
         !fileName.includes('.') // names like "Dockerfile", "Makefile"
     );
-}
\ No newline at end of file
+}
+
+/* Extensions that are never readable text – skipped without sniffing */
+export const binaryExtensions: string[] = [
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tiff', '.psd',
+    '.woff', '.woff2', '.ttf', '.otf', '.eot', '.zip', '.gz', '.tgz', '.bz2',
+    '.xz', '.7z', '.rar', '.tar', '.jar', '.war', '.class', '.exe', '.dll',
+    '.so', '.dylib', '.o', '.a', '.wasm', '.pyc', '.pdf', '.doc', '.docx',
+    '.xls', '.xlsx', '.ppt', '.pptx', '.mp3', '.mp4', '.wav', '.ogg', '.mov',
+    '.avi', '.webm', '.sqlite', '.db', '.bin'
+];
+
+export function isBinaryFileName(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return binaryExtensions.some((ext) => lower.endsWith(ext));
+}
+
+/* Single files above this size are excluded by default (1 MB) */
+export const MAX_FILE_SIZE = 1024 * 1024;
+
+/** Short human-readable explanation of why a file was excluded */
+export function formatExclusionReason(reason: ExclusionReason): string {
+    switch (reason.kind) {
+        case 'ignored':
+            return `ignored by ${formatIgnoreRule(reason.rule)}`;
+        case 'extension':
+            return 'not a recognised code extension';
+        case 'binary':
+            return 'binary file';
+        case 'too-large':
+            return `larger than ${formatFileSize(reason.limit)}`;
+        case 'vendored':
+            return `vendored (${reason.dir})`;
+        case 'generated':
+            return `generated (${reason.marker})`;
+        case 'minified':
+            return 'minified';
+        case 'duplicate':
+            return `duplicate of ${reason.of}`;
+    }
+}
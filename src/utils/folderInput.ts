@@ -0,0 +1,110 @@
+/* Every way a project can get into the app – the folder <input>, drag and
+ * drop and the File System Access API – ends up as the same flat list of
+ * files, each with its path including the root folder's name. */
+
+export interface PickedFile {
+    file: File;
+    path: string;       // “project/src/index.ts”; just the name for a loose file
+}
+
+export const canPickDirectory = (): boolean =>
+    typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+/** Files of an `<input webkitdirectory>` (or a plain multi-file input) */
+export function fromFileList(list: FileList): PickedFile[] {
+    return Array.from(list, (file) => ({
+        file,
+        path: (file.webkitRelativePath || file.name).replaceAll('\\', '/'),
+    }));
+}
+
+/** Ask the user for a folder; null when the dialog is dismissed */
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    try {
+        return (await window.showDirectoryPicker?.({ id: 'codeparse', mode: 'read' })) ?? null;
+    } catch (e) {
+        if (e instanceof DOMException && e.name === 'AbortError') return null;
+        throw e;
+    }
+}
+
+/** Read permission for a remembered handle; prompts, so call it from a click */
+export async function ensureReadPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    if (!handle.queryPermission || !handle.requestPermission) return true;
+    if ((await handle.queryPermission({ mode: 'read' })) === 'granted') return true;
+    return (await handle.requestPermission({ mode: 'read' })) === 'granted';
+}
+
+/** Every file below `handle`, read fresh from disk */
+export async function readDirectoryHandle(
+    handle: FileSystemDirectoryHandle,
+    prefix = handle.name,
+): Promise<PickedFile[]> {
+    const files: PickedFile[] = [];
+    for await (const child of handle.values()) {
+        const path = `${prefix}/${child.name}`;
+        if (child.kind === 'file') files.push({ file: await child.getFile(), path });
+        else files.push(...(await readDirectoryHandle(child, path)));
+    }
+    return files;
+}
+
+/* ── drag and drop (FileSystemEntry API, supported everywhere) ──────── */
+
+const entryFile = (entry: FileSystemFileEntry) =>
+    new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+/* readEntries() hands out at most ~100 entries per call */
+async function entryChildren(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = entry.createReader();
+    const children: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+            reader.readEntries(resolve, reject),
+        );
+        if (!batch.length) return children;
+        children.push(...batch);
+    }
+}
+
+async function readEntry(entry: FileSystemEntry, path: string): Promise<PickedFile[]> {
+    if (entry.isFile) return [{ file: await entryFile(entry as FileSystemFileEntry), path }];
+    const files: PickedFile[] = [];
+    for (const child of await entryChildren(entry as FileSystemDirectoryEntry)) {
+        files.push(...(await readEntry(child, `${path}/${child.name}`)));
+    }
+    return files;
+}
+
+/**
+ * Files of everything dropped – one or several folders and loose files.
+ * `handles` holds one directory handle per dropped item when the browser
+ * offers them (Chromium) and only folders were dropped; otherwise it is
+ * empty, so a re-scan never silently loses a root.
+ */
+export async function readDataTransfer(
+    transfer: DataTransfer,
+): Promise<{ files: PickedFile[]; handles: FileSystemDirectoryHandle[] }> {
+    /* The items are only valid during the event, so query them all up front */
+    const items = Array.from(transfer.items).filter((item) => item.kind === 'file');
+    const entries = items.map((item) => item.webkitGetAsEntry());
+    const looseFiles = items.map((item) => item.getAsFile());
+    const pendingHandles = items.map((item) =>
+        (item.getAsFileSystemHandle?.() ?? Promise.resolve(null)).catch(() => null),
+    );
+
+    const files: PickedFile[] = [];
+    for (let i = 0; i < items.length; i++) {
+        const entry = entries[i];
+        const file = looseFiles[i];
+        if (entry) files.push(...(await readEntry(entry, entry.name)));
+        else if (file) files.push({ file, path: file.name });
+    }
+
+    const handles = await Promise.all(pendingHandles);
+    const directories = handles.filter(
+        (h): h is FileSystemDirectoryHandle => h?.kind === 'directory',
+    );
+    const complete = handles.every((h) => h?.kind === 'directory');
+    return { files, handles: complete ? directories : [] };
+}
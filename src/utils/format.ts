@@ -5,4 +5,16 @@ export function formatFileSize(bytes: number): string {
     const units = ['B', 'KB', 'MB', 'GB'];
     const i = Math.floor(Math.log(bytes) / Math.log(k));
     return `${(bytes / k ** i).toFixed(2)} ${units[i]}`;
-}
\ No newline at end of file
+}
+
+/** Compact token count (e.g. “12.3k”, “1.05M”). */
+export function formatTokenCount(tokens: number): string {
+    if (tokens < 1000) return String(tokens);
+    if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+    return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+/** Count with thousands separators (e.g. “12,345”), independent of the locale. */
+export function formatCount(n: number): string {
+    return n.toLocaleString('en-US');
+}
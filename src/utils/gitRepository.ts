@@ -0,0 +1,382 @@
+import { type PickedFile } from './folderInput';
+import { sha1Hex } from './hash';
+
+/* Read-only access to the `.git` directory uploaded along with a project:
+   refs, loose and packed objects (deltas included) and the index. Objects
+   are inflated with the browser's DecompressionStream and read straight
+   from the File slices, so a pack is never loaded as a whole. */
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+    type: GitObjectType;
+    data: Uint8Array;
+}
+
+export interface GitTreeEntry {
+    sha: string;
+    mode: string;           // '100644', '100755' or '120000' (symlink)
+}
+
+export interface GitIndexEntry {
+    sha: string;
+    mode: number;
+    size: number;
+    mtimeMs: number;
+}
+
+export interface GitRepository {
+    root: string;                   // folder holding `.git` ('' for a loose upload)
+    head: string | null;            // checked-out branch, null when detached
+    branches: string[];             // local branches, then remote-tracking ones
+    resolveRef(ref: string): Promise<string>;
+    readObject(sha: string): Promise<GitObject>;
+    readTree(ref: string): Promise<Map<string, GitTreeEntry>>;
+    readIndex(): Promise<Map<string, GitIndexEntry>>;
+}
+
+export const SYMLINK_MODE = '120000';
+const TREE_MODE = '40000';
+const GITLINK_MODE = '160000';
+
+const utf8 = new TextDecoder();
+
+const toHex = (bytes: Uint8Array) =>
+    Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+async function inflate(data: Blob): Promise<Uint8Array> {
+    const stream = data.stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Object id of a working-tree file as `git hash-object` computes it */
+export async function hashBlob(file: Blob): Promise<string> {
+    const header = new TextEncoder().encode(`blob ${file.size}\0`);
+    const bytes = new Uint8Array(header.length + file.size);
+    bytes.set(header);
+    bytes.set(new Uint8Array(await file.arrayBuffer()), header.length);
+    return sha1Hex(bytes);
+}
+
+/* ── packs ───────────────────────────────────────────────────────────── */
+
+const PACK_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+const PACK_TRAILER = 20;
+const IDX_MAGIC = 0xff744f63;
+
+interface PackIndex {
+    fanout: Uint32Array;
+    shas: Uint8Array;               // count × 20 bytes, sorted
+    offsets: number[];              // same order as `shas`
+    ends: Map<number, number>;      // object offset → offset of the next object
+}
+
+interface Pack {
+    data: File;
+    index: PackIndex;
+}
+
+/* Only version 2 indexes – written by every git since 1.5.2 */
+async function readPackIndex(idx: File, packSize: number): Promise<PackIndex> {
+    const view = new DataView(await idx.arrayBuffer());
+    if (view.getUint32(0) !== IDX_MAGIC || view.getUint32(4) !== 2) {
+        throw new Error(`${idx.name}: unsupported pack index version`);
+    }
+    const fanout = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) fanout[i] = view.getUint32(8 + i * 4);
+    const count = fanout[255];
+
+    const shaStart = 8 + 256 * 4;
+    const offsetStart = shaStart + count * 20 + count * 4;      // CRCs sit in between
+    const largeStart = offsetStart + count * 4;
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const small = view.getUint32(offsetStart + i * 4);
+        offsets.push(
+            small & 0x80000000
+                ? Number(view.getBigUint64(largeStart + (small & 0x7fffffff) * 8))
+                : small,
+        );
+    }
+
+    /* Entries are stored back to back, so the next offset ends the data */
+    const sorted = [...offsets].sort((a, b) => a - b);
+    const ends = new Map(sorted.map((o, i) => [o, sorted[i + 1] ?? packSize - PACK_TRAILER]));
+
+    return {
+        fanout,
+        shas: new Uint8Array(view.buffer, shaStart, count * 20),
+        offsets,
+        ends,
+    };
+}
+
+function findInPack(index: PackIndex, sha: string): number | undefined {
+    const target = Uint8Array.from(sha.match(/../g)!, (h) => parseInt(h, 16));
+    let lo = target[0] ? index.fanout[target[0] - 1] : 0;
+    let hi = index.fanout[target[0]];
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        let cmp = 0;
+        for (let i = 0; i < 20 && !cmp; i++) cmp = index.shas[mid * 20 + i] - target[i];
+        if (!cmp) return index.offsets[mid];
+        if (cmp < 0) lo = mid + 1;
+        else hi = mid;
+    }
+    return undefined;
+}
+
+/* Delta = base size, result size, then copy-from-base / insert instructions */
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+    let at = 0;
+    const size = () => {
+        let value = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            byte = delta[at++];
+            value += (byte & 0x7f) * 2 ** shift;
+            shift += 7;
+        } while (byte & 0x80);
+        return value;
+    };
+    if (size() !== base.length) throw new Error('Corrupt delta (base size mismatch)');
+    const out = new Uint8Array(size());
+
+    let pos = 0;
+    while (at < delta.length) {
+        const op = delta[at++];
+        if (op & 0x80) {
+            let offset = 0;
+            let length = 0;
+            for (let i = 0; i < 4; i++) if (op & (1 << i)) offset += delta[at++] * 2 ** (8 * i);
+            for (let i = 0; i < 3; i++) if (op & (0x10 << i)) length += delta[at++] * 2 ** (8 * i);
+            length ||= 0x10000;
+            out.set(base.subarray(offset, offset + length), pos);
+            pos += length;
+        } else if (op) {
+            out.set(delta.subarray(at, at + op), pos);
+            at += op;
+            pos += op;
+        } else {
+            throw new Error('Corrupt delta (reserved instruction)');
+        }
+    }
+    return out;
+}
+
+/* ── index ───────────────────────────────────────────────────────────── */
+
+const INDEX_MAGIC = 0x44495243;         // “DIRC”
+const ENTRY_HEADER = 62;
+const FLAG_EXTENDED = 0x4000;
+
+/* Entries of versions 2–4; v4 compresses each path against the previous one */
+function parseIndex(buffer: ArrayBuffer): Map<string, GitIndexEntry> {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    if (view.getUint32(0) !== INDEX_MAGIC) throw new Error('Not a git index');
+    const version = view.getUint32(4);
+    if (version < 2 || version > 4) throw new Error(`Unsupported git index version ${version}`);
+    const count = view.getUint32(8);
+
+    const entries = new Map<string, GitIndexEntry>();
+    let at = 12;
+    let previous = '';
+    for (let i = 0; i < count; i++) {
+        const start = at;
+        const flags = view.getUint16(start + 60);
+        at = start + ENTRY_HEADER + (version >= 3 && flags & FLAG_EXTENDED ? 2 : 0);
+
+        let path: string;
+        if (version === 4) {
+            let byte = bytes[at++];
+            let strip = byte & 0x7f;
+            while (byte & 0x80) {
+                byte = bytes[at++];
+                strip = ((strip + 1) << 7) | (byte & 0x7f);
+            }
+            const end = bytes.indexOf(0, at);
+            path = previous.slice(0, previous.length - strip) + utf8.decode(bytes.subarray(at, end));
+            at = end + 1;
+        } else {
+            const end = bytes.indexOf(0, at);
+            path = utf8.decode(bytes.subarray(at, end));
+            at = start + ((end - start + 8) & ~7);        // NUL-padded to a multiple of 8
+        }
+        previous = path;
+
+        if ((flags >> 12) & 3) continue;                  // merge conflict stages
+        entries.set(path, {
+            sha: toHex(bytes.subarray(start + 40, start + 60)),
+            mode: view.getUint32(start + 24),
+            size: view.getUint32(start + 36),
+            mtimeMs: view.getUint32(start + 8) * 1000 + Math.floor(view.getUint32(start + 12) / 1e6),
+        });
+    }
+    return entries;
+}
+
+/* ── repository ──────────────────────────────────────────────────────── */
+
+/* Recently inflated objects – delta chains share their bases */
+const CACHE_SIZE = 256;
+
+/**
+ * The repository whose `.git` directory sits at the top of the upload
+ * (`project/.git/HEAD`), or null when the upload has none.
+ */
+export async function openGitRepository(picked: PickedFile[]): Promise<GitRepository | null> {
+    const headFile = picked.find((p) => /^(?:[^/]+\/)?\.git\/HEAD$/.test(p.path));
+    if (!headFile) return null;
+    const gitDir = headFile.path.slice(0, -'HEAD'.length);
+    const root = gitDir.slice(0, -'.git/'.length).replace(/\/$/, '');
+
+    const gitFiles = new Map(
+        picked.filter((p) => p.path.startsWith(gitDir)).map((p) => [p.path.slice(gitDir.length), p.file]),
+    );
+    const readGitText = async (name: string) => (await gitFiles.get(name)?.text())?.trim();
+
+    /* Loose refs override packed ones */
+    const refs = new Map<string, string>();
+    for (const line of ((await readGitText('packed-refs')) ?? '').split('\n')) {
+        const match = /^([0-9a-f]{40}) (refs\/\S+)$/.exec(line);
+        if (match) refs.set(match[2], match[1]);
+    }
+    for (const [name, file] of gitFiles) {
+        if (name.startsWith('refs/')) refs.set(name, (await file.text()).trim());
+    }
+
+    const headRef = (await readGitText('HEAD')) ?? '';
+    const head = /^ref: refs\/heads\/(.+)$/.exec(headRef)?.[1] ?? null;
+    const branches = [
+        ...[...refs.keys()].filter((r) => r.startsWith('refs/heads/')).map((r) => r.slice(11)),
+        ...[...refs.keys()]
+            .filter((r) => r.startsWith('refs/remotes/') && !r.endsWith('/HEAD'))
+            .map((r) => r.slice(13)),
+    ];
+
+    const packs: Pack[] = [];
+    for (const [name, idx] of gitFiles) {
+        const data = gitFiles.get(name.replace(/\.idx$/, '.pack'));
+        if (!/^objects\/pack\/[^/]+\.idx$/.test(name) || !data) continue;
+        packs.push({ data, index: await readPackIndex(idx, data.size) });
+    }
+
+    const cache = new Map<string, GitObject>();
+    const remember = (key: string, object: GitObject) => {
+        cache.set(key, object);
+        if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        return object;
+    };
+
+    const readPacked = async (pack: Pack, offset: number): Promise<GitObject> => {
+        const key = `${pack.data.name}@${offset}`;
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        const end = pack.index.ends.get(offset) ?? pack.data.size - PACK_TRAILER;
+        const head = new Uint8Array(await pack.data.slice(offset, Math.min(end, offset + 48)).arrayBuffer());
+        let at = 0;
+        let byte = head[at++];
+        const type = (byte >> 4) & 7;
+        while (byte & 0x80) byte = head[at++];        // inflated size – the data tells us anyway
+
+        let base: Promise<GitObject> | undefined;
+        if (type === OFS_DELTA) {
+            byte = head[at++];
+            let distance = byte & 0x7f;
+            while (byte & 0x80) {
+                byte = head[at++];
+                distance = (distance + 1) * 128 + (byte & 0x7f);
+            }
+            base = readPacked(pack, offset - distance);
+        } else if (type === REF_DELTA) {
+            base = readObject(toHex(head.subarray(at, at + 20)));
+            at += 20;
+        }
+
+        const data = await inflate(pack.data.slice(offset + at, end));
+        if (base) {
+            const { type: baseType, data: baseData } = await base;
+            return remember(key, { type: baseType, data: applyDelta(baseData, data) });
+        }
+        const objectType = PACK_TYPES[type];
+        if (!objectType) throw new Error(`Unknown pack object type ${type}`);
+        return remember(key, { type: objectType, data });
+    };
+
+    const readObject = async (sha: string): Promise<GitObject> => {
+        const loose = gitFiles.get(`objects/${sha.slice(0, 2)}/${sha.slice(2)}`);
+        if (loose) {
+            const raw = await inflate(loose);
+            const nul = raw.indexOf(0);
+            const type = utf8.decode(raw.subarray(0, nul)).split(' ')[0] as GitObjectType;
+            return { type, data: raw.subarray(nul + 1) };
+        }
+        for (const pack of packs) {
+            const offset = findInPack(pack.index, sha);
+            if (offset !== undefined) return readPacked(pack, offset);
+        }
+        throw new Error(`Git object ${sha} not found`);
+    };
+
+    /* Same lookup order as git: exact, tags, branches, remote-tracking */
+    const resolveRef = async (ref: string): Promise<string> => {
+        let sha: string | undefined;
+        if (/^[0-9a-f]{40}$/.test(ref)) sha = ref;
+        else {
+            let name: string | undefined = ref === 'HEAD' ? headRef : `ref: ${ref}`;
+            for (let depth = 0; name?.startsWith('ref: ') && depth < 10; depth++) {
+                const target = name.slice(5);
+                name = [target, `refs/${target}`, `refs/tags/${target}`, `refs/heads/${target}`,
+                    `refs/remotes/${target}`, `refs/remotes/${target}/HEAD`]
+                    .map((r) => refs.get(r))
+                    .find(Boolean);
+            }
+            if (name && /^[0-9a-f]{40}$/.test(name)) sha = name;
+        }
+        if (!sha) throw new Error(`Unknown git ref “${ref}”`);
+
+        /* Annotated tags point at the commit */
+        for (;;) {
+            const object = await readObject(sha);
+            if (object.type !== 'tag') break;
+            sha = /^object ([0-9a-f]{40})/.exec(utf8.decode(object.data))![1];
+        }
+        return sha;
+    };
+
+    const readTree = async (ref: string): Promise<Map<string, GitTreeEntry>> => {
+        const commit = await readObject(await resolveRef(ref));
+        if (commit.type !== 'commit') throw new Error(`“${ref}” is not a commit`);
+        const treeSha = /^tree ([0-9a-f]{40})/.exec(utf8.decode(commit.data))![1];
+
+        const entries = new Map<string, GitTreeEntry>();
+        const walk = async (sha: string, prefix: string) => {
+            const { data } = await readObject(sha);
+            for (let at = 0; at < data.length; ) {
+                const space = data.indexOf(0x20, at);
+                const nul = data.indexOf(0, space);
+                const mode = utf8.decode(data.subarray(at, space));
+                const path = prefix + utf8.decode(data.subarray(space + 1, nul));
+                const entrySha = toHex(data.subarray(nul + 1, nul + 21));
+                at = nul + 21;
+
+                if (mode === TREE_MODE) await walk(entrySha, `${path}/`);
+                else if (mode !== GITLINK_MODE) entries.set(path, { sha: entrySha, mode });
+            }
+        };
+        await walk(treeSha, '');
+        return entries;
+    };
+
+    const readIndex = async () => {
+        const index = gitFiles.get('index');
+        return index ? parseIndex(await index.arrayBuffer()) : new Map<string, GitIndexEntry>();
+    };
+
+    return { root, head, branches, resolveRef, readObject, readTree, readIndex };
+}
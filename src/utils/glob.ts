@@ -0,0 +1,79 @@
+/* Glob patterns for selection profiles and the tree filter. Paths are
+ * relative to the project root and use “/”. The dialect is the familiar
+ * one: `*` and `?` stay inside a path segment, `**` spans directories,
+ * `{a,b}` alternates, `[abc]` / `[!abc]` are character classes and `\`
+ * escapes the next character. As in .gitignore, a pattern without a slash
+ * matches at any depth, a leading slash anchors it to the root and a
+ * trailing slash means “everything below”. */
+
+const escapeRegExp = (ch: string) => ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/** Escape a literal path so it can be used as a pattern (`[id].tsx` → `\[id\].tsx`) */
+export const escapeGlob = (path: string): string => path.replace(/[*?[\]{}\\]/g, '\\$&');
+
+/** Compile one pattern; throws a SyntaxError for a malformed character class */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim();
+    if (pattern.startsWith('/')) pattern = pattern.slice(1);
+    else if (!pattern.slice(0, -1).includes('/')) pattern = `**/${pattern}`;
+    if (pattern.endsWith('/')) pattern += '**';
+
+    let re = '';
+    let braces = 0;
+    let i = 0;
+    while (i < pattern.length) {
+        const ch = pattern[i];
+
+        if (ch === '\\' && i + 1 < pattern.length) {
+            re += escapeRegExp(pattern[i + 1]);
+            i += 2;
+        } else if (ch === '*' && pattern[i + 1] === '*') {
+            const segmentStart = i === 0 || pattern[i - 1] === '/';
+            const next = i + 2;
+            if (segmentStart && pattern[next] === '/') {
+                re += '(?:.*/)?';           // `**/` – zero or more directories
+                i = next + 1;
+            } else if (segmentStart && next === pattern.length) {
+                re += '.*';                 // trailing `/**` – everything below
+                i = next;
+            } else {
+                re += '[^/]*';              // `a**b` is just a star
+                i = next;
+            }
+        } else if (ch === '*') {
+            re += '[^/]*';
+            i++;
+        } else if (ch === '?') {
+            re += '[^/]';
+            i++;
+        } else if (ch === '[' && pattern.indexOf(']', i + 2) !== -1) {
+            const close = pattern.indexOf(']', i + 2);
+            const body = pattern.slice(i + 1, close).replace(/\\/g, '\\\\');
+            re += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+            i = close + 1;
+        } else if (ch === '{') {
+            braces++;
+            re += '(?:';
+            i++;
+        } else if (ch === '}' && braces > 0) {
+            braces--;
+            re += ')';
+            i++;
+        } else if (ch === ',' && braces > 0) {
+            re += '|';
+            i++;
+        } else {
+            re += escapeRegExp(ch);
+            i++;
+        }
+    }
+    re += ')'.repeat(braces);       // forgive an unclosed `{`
+
+    return new RegExp(`^${re}$`);
+}
+
+/** True when `relPath` matches any of the patterns (blank ones are skipped) */
+export function createGlobMatcher(patterns: string[]): (relPath: string) => boolean {
+    const compiled = patterns.filter((p) => p.trim()).map(globToRegExp);
+    return (relPath) => compiled.some((re) => re.test(relPath));
+}
@@ -0,0 +1,47 @@
+/* The last opened folder handles, kept in IndexedDB (handles cannot be
+ * serialised to localStorage) so “Re-scan” survives a page reload.
+ * Failures are swallowed – remembering folders is a convenience only. */
+
+const DB_NAME = 'codeparse';
+const STORE = 'handles';
+const KEY = 'roots';
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/** Remember the root folders of the current project (an empty list forgets them) */
+export async function rememberHandles(handles: FileSystemDirectoryHandle[]): Promise<void> {
+    try {
+        await run('readwrite', (store) => (handles.length ? store.put(handles, KEY) : store.delete(KEY)));
+    } catch {
+        /* private mode, storage disabled … */
+    }
+}
+
+export async function recallHandles(): Promise<FileSystemDirectoryHandle[]> {
+    try {
+        const stored = await run<unknown>('readonly', (store) => store.get(KEY));
+        return Array.isArray(stored) ? (stored as FileSystemDirectoryHandle[]) : [];
+    } catch {
+        return [];
+    }
+}
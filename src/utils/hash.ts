@@ -0,0 +1,11 @@
+async function digestHex(algorithm: AlgorithmIdentifier, data: string | BufferSource): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest(algorithm, bytes);
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex-encoded SHA-256 of a string (UTF-8) or raw bytes */
+export const sha256Hex = (data: string | BufferSource): Promise<string> => digestHex('SHA-256', data);
+
+/** Hex-encoded SHA-1 – only for git object ids, never for anything security-related */
+export const sha1Hex = (data: string | BufferSource): Promise<string> => digestHex('SHA-1', data);
@@ -0,0 +1,155 @@
+import ignore, { type Ignore } from 'ignore';
+
+/* Per-directory ignore files, lowest precedence first. Custom files win over
+   .gitignore when they live in the same directory. */
+export const IGNORE_FILE_NAMES: string[] = ['.gitignore', '.aiignore', '.codeparseignore'];
+
+/* Repository-wide exclude file, applied below every per-directory file */
+export const GIT_EXCLUDE_PATH = '.git/info/exclude';
+
+export interface IgnoreSource {
+    path: string;       // ignore file path relative to the project root
+    content: string;
+}
+
+export interface IgnoreRule {
+    source: string;     // ignore file the rule came from ('built-in' for defaults)
+    line: number;       // 1-based line number inside `source`
+    pattern: string;    // raw pattern as written, including a leading “!”
+    negated: boolean;
+}
+
+export interface IgnoreMatch {
+    ignored: boolean;
+    rule?: IgnoreRule;  // last rule that matched (may be a negation)
+}
+
+interface CompiledRule {
+    rule: IgnoreRule;
+    matcher: Ignore;
+}
+
+interface ScopedRules {
+    scope: string;      // directory the rules are relative to ('' = root, else “dir/”)
+    rules: CompiledRule[];
+}
+
+/* Git never exports its own metadata directory */
+const GIT_DIR_RULE: IgnoreRule = {
+    source: 'built-in',
+    line: 0,
+    pattern: '.git/',
+    negated: false,
+};
+
+export function isIgnoreFile(relPath: string): boolean {
+    if (relPath === GIT_EXCLUDE_PATH) return true;
+    const name = relPath.split('/').pop() ?? '';
+    return IGNORE_FILE_NAMES.includes(name);
+}
+
+/** “packages/api/.gitignore:3  dist/” */
+export function formatIgnoreRule(rule: IgnoreRule): string {
+    return rule.line ? `${rule.source}:${rule.line}  ${rule.pattern}` : `${rule.source}  ${rule.pattern}`;
+}
+
+function parseRules(source: IgnoreSource): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+
+    source.content.split(/\r?\n/).forEach((raw, idx) => {
+        const line = raw.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) return;
+
+        const negated = line.startsWith('!');
+        rules.push({
+            rule: { source: source.path, line: idx + 1, pattern: line, negated },
+            matcher: ignore().add(negated ? line.slice(1) : line),
+        });
+    });
+
+    return rules;
+}
+
+function scopeOf(sourcePath: string): string {
+    if (sourcePath === GIT_EXCLUDE_PATH) return '';
+    const idx = sourcePath.lastIndexOf('/');
+    return idx === -1 ? '' : sourcePath.slice(0, idx + 1);
+}
+
+function precedence(sourcePath: string): number[] {
+    if (sourcePath === GIT_EXCLUDE_PATH) return [-1, 0];
+    const scope = scopeOf(sourcePath);
+    const depth = scope ? scope.split('/').length - 1 : 0;
+    const name = sourcePath.slice(scope.length);
+    return [depth, IGNORE_FILE_NAMES.indexOf(name)];
+}
+
+/**
+ * Build a matcher that follows git’s rules: every ignore file applies only
+ * below its own directory, deeper files override shallower ones, the last
+ * matching line wins, and nothing inside an excluded directory can be
+ * re-included by a negation.
+ *
+ * `relPath` is relative to the project root; directories end with “/”.
+ */
+export function createIgnoreMatcher(
+    sources: IgnoreSource[],
+): (relPath: string) => IgnoreMatch {
+    const scoped: ScopedRules[] = [...sources]
+        .sort((a, b) => {
+            const [da, na] = precedence(a.path);
+            const [db, nb] = precedence(b.path);
+            return da - db || na - nb || a.path.localeCompare(b.path);
+        })
+        .map((s) => ({ scope: scopeOf(s.path), rules: parseRules(s) }));
+
+    /* Last matching rule for a single path, ignoring its ancestors */
+    const lastMatch = (relPath: string): IgnoreRule | undefined => {
+        let found: IgnoreRule | undefined;
+        for (const { scope, rules } of scoped) {
+            if (!relPath.startsWith(scope) || relPath === scope) continue;
+            const local = relPath.slice(scope.length);
+            for (const { rule, matcher } of rules) {
+                if (matcher.ignores(local)) found = rule;
+            }
+        }
+        return found;
+    };
+
+    const dirCache = new Map<string, IgnoreMatch>();
+
+    const matchDir = (dirPath: string): IgnoreMatch => {
+        const cached = dirCache.get(dirPath);
+        if (cached) return cached;
+
+        let result: IgnoreMatch = { ignored: false };
+        const parentEnd = dirPath.lastIndexOf('/', dirPath.length - 2);
+        const parent = parentEnd === -1 ? null : matchDir(dirPath.slice(0, parentEnd + 1));
+
+        if (parent?.ignored) {
+            result = parent;
+        } else {
+            const rule = lastMatch(dirPath);
+            if (rule) result = { ignored: !rule.negated, rule };
+        }
+
+        dirCache.set(dirPath, result);
+        return result;
+    };
+
+    return (relPath: string): IgnoreMatch => {
+        const segments = relPath.split('/');
+        if (segments.slice(0, -1).includes('.git')) {
+            return { ignored: true, rule: GIT_DIR_RULE };
+        }
+
+        const dirEnd = relPath.lastIndexOf('/');
+        if (dirEnd !== -1) {
+            const dir = matchDir(relPath.slice(0, dirEnd + 1));
+            if (dir.ignored) return dir;
+        }
+
+        const rule = lastMatch(relPath);
+        return rule ? { ignored: !rule.negated, rule } : { ignored: false };
+    };
+}
@@ -0,0 +1,314 @@
+import { languageForPath } from './languages';
+import { tokenize } from './lexer';
+
+/* Import statements of JS/TS, Python and Go sources and the project files
+   they resolve to. Only project-internal edges are kept – packages from
+   node_modules, site-packages or the Go module cache are not uploaded. */
+
+export type ImportLanguage = 'js' | 'python' | 'go';
+
+const IMPORT_LANGUAGES: Record<string, ImportLanguage> = {
+    javascript: 'js', jsx: 'js', typescript: 'js', tsx: 'js',
+    python: 'python',
+    go: 'go',
+};
+
+export const importLanguageOf = (path: string): ImportLanguage | undefined =>
+    IMPORT_LANGUAGES[languageForPath(path)];
+
+/* ── extraction ──────────────────────────────────────────────────────── */
+
+const JS_IMPORTS = [
+    /\bimport\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"]+)['"]/g,   // import x from 'y', import 'y'
+    /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s+from\s+['"]([^'"]+)['"]/g,
+    /\b(?:import|require)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,                    // import('y'), require('y')
+];
+
+const PY_FROM = /^[ \t]*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n#]+)/gm;
+const PY_IMPORT = /^[ \t]*import\s+([^\n#]+)/gm;
+
+const GO_SINGLE = /\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g;
+const GO_BLOCK = /\bimport\s*\(([^)]*)\)/g;
+
+const matchAll = (text: string, pattern: RegExp, group = 1) =>
+    [...text.matchAll(pattern)].map((m) => m[group]);
+
+/* Python submodules are written like attributes: from pkg import mod */
+function pythonImports(code: string): string[] {
+    const specs = matchAll(code, PY_IMPORT).flatMap((list) =>
+        list.split(',').map((part) => part.trim().split(/\s+/)[0]),
+    );
+    for (const [, module, names] of code.matchAll(PY_FROM)) {
+        specs.push(module);
+        const join = module.endsWith('.') ? module : `${module}.`;
+        names
+            .replace(/[()]/g, '')
+            .split(',')
+            .map((part) => part.trim().split(/\s+/)[0])
+            .filter((name) => /^\w+$/.test(name))
+            .forEach((name) => specs.push(join + name));
+    }
+    return specs.filter(Boolean);
+}
+
+/* Strings are blanked so that `"import z from './y'"` inside one is not
+   taken for an import – except where a specifier is expected. Python never
+   imports by string; Go import blocks list bare paths, so Go keeps them all. */
+const SPECIFIER_CONTEXT: Record<ImportLanguage, RegExp | null> = {
+    js: /(?:\b(?:from|import)|\b(?:import|require)\s*\()\s*$/,
+    python: /(?!)/,
+    go: null,
+};
+const CONTEXT_CHARS = 32;
+
+/* The source without comments, strings blanked where they cannot be specifiers */
+function importCode(text: string, path: string, language: ImportLanguage): string {
+    const context = SPECIFIER_CONTEXT[language];
+    const parts: string[] = [];
+    let tail = '';
+    for (const token of tokenize(text, languageForPath(path))) {
+        if (token.kind === 'comment') continue;
+        const part =
+            token.kind === 'string' && context && !context.test(tail)
+                ? token.text.replace(/[^\n]/g, ' ')
+                : token.text;
+        parts.push(part);
+        tail = (tail + part).slice(-CONTEXT_CHARS);
+    }
+    return parts.join('');
+}
+
+/** Module specifiers imported by the source at `path`, comments and strings ignored */
+export function extractImports(text: string, path: string): string[] {
+    const language = importLanguageOf(path);
+    if (!language) return [];
+    const code = importCode(text, path, language);
+
+    switch (language) {
+        case 'js':
+            return JS_IMPORTS.flatMap((pattern) => matchAll(code, pattern));
+        case 'python':
+            return pythonImports(code);
+        case 'go':
+            return [
+                ...matchAll(code, GO_SINGLE),
+                ...matchAll(code, GO_BLOCK).flatMap((block) => matchAll(block, /"([^"]+)"/g)),
+            ];
+    }
+}
+
+/* ── project configuration ───────────────────────────────────────────── */
+
+export interface TsConfigFile {
+    path: string;       // project path of tsconfig*.json / jsconfig.json
+    content: string;
+}
+
+export interface GoModFile {
+    path: string;       // project path of go.mod
+    content: string;
+}
+
+export const isTsConfigName = (name: string): boolean =>
+    /^(?:tsconfig(?:\.[\w-]+)?|jsconfig)\.json$/.test(name);
+
+/* tsconfig files are JSONC: comments and trailing commas are allowed */
+export function parseJsonc(text: string): unknown {
+    let out = '';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') {
+            const start = i;
+            for (i++; i < text.length && text[i] !== '"'; i++) if (text[i] === '\\') i++;
+            out += text.slice(start, i + 1);
+        } else if (ch === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            out += '\n';
+        } else if (ch === '/' && text[i + 1] === '*') {
+            i = text.indexOf('*/', i + 2);
+            if (i === -1) break;
+            i++;
+        } else {
+            out += ch;
+        }
+    }
+    return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+const dirname = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+
+/** `dir` joined with a relative path; '..' never climbs above the first segment */
+export function joinPath(dir: string, relative: string): string {
+    const parts = dir ? dir.split('/') : [];
+    for (const segment of relative.split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment && segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+}
+
+interface PathMapping {
+    dir: string;                        // directory the config applies to
+    baseUrl?: string;                   // project path
+    paths: [string, string[]][];        // pattern → targets, relative to `pathsBase`
+    pathsBase: string;
+}
+
+interface CompilerOptions {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+}
+
+/* compilerOptions of a config, with the `baseUrl` / `paths` it extends */
+function mappingOf(config: TsConfigFile, byPath: Map<string, TsConfigFile>, depth = 0): PathMapping {
+    const dir = dirname(config.path);
+    let parsed: { extends?: unknown; compilerOptions?: CompilerOptions } = {};
+    try {
+        parsed = parseJsonc(config.content) as typeof parsed;
+    } catch {
+        /* an unreadable config simply maps nothing */
+    }
+
+    let inherited: PathMapping | undefined;
+    if (typeof parsed.extends === 'string' && parsed.extends.startsWith('.') && depth < 5) {
+        const target = joinPath(dir, parsed.extends);
+        const base = byPath.get(target) ?? byPath.get(`${target}.json`);
+        if (base) inherited = mappingOf(base, byPath, depth + 1);
+    }
+
+    const options = parsed.compilerOptions ?? {};
+    const baseUrl = options.baseUrl !== undefined ? joinPath(dir, options.baseUrl) : inherited?.baseUrl;
+    return {
+        dir,
+        baseUrl,
+        paths: options.paths ? Object.entries(options.paths) : inherited?.paths ?? [],
+        pathsBase: options.paths ? (baseUrl ?? dir) : inherited?.pathsBase ?? dir,
+    };
+}
+
+/* ── resolution ──────────────────────────────────────────────────────── */
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json'];
+
+export type ImportResolver = (from: string, specifier: string) => string[];
+
+/**
+ * Resolver over the given project paths: relative and tsconfig-mapped
+ * JS/TS imports, Python modules and packages, and Go packages of the
+ * modules declared in go.mod files. Unresolvable specifiers give [].
+ */
+export function createImportResolver(
+    paths: string[],
+    tsConfigs: TsConfigFile[] = [],
+    goMods: GoModFile[] = [],
+): ImportResolver {
+    const known = new Set(paths);
+
+    /* './util.js' may be the ESM spelling of util.ts */
+    const resolveJsFile = (base: string): string | undefined => {
+        if (known.has(base)) return base;
+        const stem = base.replace(/\.(?:[mc]?js|jsx)$/, '');
+        for (const candidate of [
+            ...JS_EXTENSIONS.map((ext) => stem + ext),
+            ...JS_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+        ]) {
+            if (known.has(candidate)) return candidate;
+        }
+        return undefined;
+    };
+
+    const byPath = new Map(tsConfigs.map((c) => [c.path, c]));
+    const mappings = tsConfigs.map((c) => mappingOf(c, byPath));
+
+    /* Configs of the nearest directory above `from` (tsconfig.app.json etc. together) */
+    const mappingsFor = (from: string) => {
+        const applicable = mappings.filter((m) => !m.dir || from.startsWith(`${m.dir}/`));
+        const nearest = Math.max(-1, ...applicable.map((m) => m.dir.length));
+        return applicable.filter((m) => m.dir.length === nearest);
+    };
+
+    const resolveJs = (from: string, spec: string): string | undefined => {
+        if (spec.startsWith('.')) return resolveJsFile(joinPath(dirname(from), spec));
+        for (const mapping of mappingsFor(from)) {
+            for (const [pattern, targets] of mapping.paths) {
+                const star = pattern.indexOf('*');
+                const [prefix, suffix] = star === -1 ? [pattern, ''] : [pattern.slice(0, star), pattern.slice(star + 1)];
+                const matches = star === -1
+                    ? spec === pattern
+                    : spec.startsWith(prefix) && spec.endsWith(suffix) && spec.length >= prefix.length + suffix.length;
+                if (!matches) continue;
+                const captured = star === -1 ? '' : spec.slice(prefix.length, spec.length - suffix.length);
+                for (const target of targets) {
+                    const found = resolveJsFile(joinPath(mapping.pathsBase, target.replace('*', captured)));
+                    if (found) return found;
+                }
+            }
+            if (mapping.baseUrl !== undefined) {
+                const found = resolveJsFile(joinPath(mapping.baseUrl, spec));
+                if (found) return found;
+            }
+        }
+        return undefined;
+    };
+
+    /* Python: package-relative, then every directory above the importer,
+       then anywhere (tests/ importing a package from src/) */
+    const pythonFiles = paths.filter((p) => p.endsWith('.py'));
+    const resolvePythonAt = (dir: string, module: string) => {
+        const base = joinPath(dir, module.replaceAll('.', '/'));
+        return [`${base}.py`, `${base}/__init__.py`].find((p) => known.has(p));
+    };
+    const resolvePython = (from: string, spec: string): string | undefined => {
+        const dots = /^\.*/.exec(spec)![0].length;
+        const module = spec.slice(dots);
+        if (dots) {
+            let dir = dirname(from);
+            for (let i = 1; i < dots; i++) dir = dirname(dir);
+            return module ? resolvePythonAt(dir, module) : [`${dir}/__init__.py`].find((p) => known.has(p));
+        }
+        for (let dir = dirname(from); ; dir = dirname(dir)) {
+            const found = resolvePythonAt(dir, module);
+            if (found || !dir) return found;
+        }
+    };
+    const resolvePythonAnywhere = (spec: string): string | undefined => {
+        const tail = spec.replaceAll('.', '/');
+        return pythonFiles.find((p) => p.endsWith(`/${tail}.py`) || p.endsWith(`/${tail}/__init__.py`));
+    };
+
+    /* Go: import path = module path + directory below go.mod */
+    const modules = goMods
+        .map((mod) => ({
+            dir: dirname(mod.path),
+            name: /^\s*module\s+(\S+)/m.exec(mod.content)?.[1] ?? '',
+        }))
+        .filter((mod) => mod.name)
+        .sort((a, b) => b.name.length - a.name.length);
+    const resolveGo = (spec: string): string[] => {
+        const mod = modules.find((m) => spec === m.name || spec.startsWith(`${m.name}/`));
+        if (!mod) return [];
+        const dir = joinPath(mod.dir, spec.slice(mod.name.length));
+        return paths.filter(
+            (p) => dirname(p) === dir && p.endsWith('.go') && !p.endsWith('_test.go'),
+        );
+    };
+
+    return (from, specifier) => {
+        switch (importLanguageOf(from)) {
+            case 'js': {
+                const found = resolveJs(from, specifier);
+                return found ? [found] : [];
+            }
+            case 'python': {
+                const found =
+                    resolvePython(from, specifier) ??
+                    (specifier.startsWith('.') ? undefined : resolvePythonAnywhere(specifier));
+                return found ? [found] : [];
+            }
+            case 'go':
+                return resolveGo(specifier);
+            default:
+                return [];
+        }
+    };
+}
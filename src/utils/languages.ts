@@ -0,0 +1,39 @@
+/* Language identifiers (as used by Markdown fences / highlight.js) per extension */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'jsx',
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'tsx',
+    '.py': 'python', '.java': 'java', '.c': 'c', '.h': 'c', '.cpp': 'cpp',
+    '.hpp': 'cpp', '.cc': 'cpp', '.cs': 'csharp', '.php': 'php', '.rb': 'ruby',
+    '.go': 'go', '.rs': 'rust', '.swift': 'swift', '.kt': 'kotlin', '.scala': 'scala',
+    '.r': 'r', '.sql': 'sql', '.html': 'html', '.css': 'css', '.scss': 'scss',
+    '.sass': 'sass', '.less': 'less', '.json': 'json', '.xml': 'xml', '.yaml': 'yaml',
+    '.yml': 'yaml', '.md': 'markdown', '.txt': 'text', '.sh': 'bash', '.bash': 'bash',
+    '.zsh': 'bash', '.bat': 'batch', '.ps1': 'powershell', '.dockerfile': 'dockerfile',
+    '.toml': 'toml', '.ini': 'ini', '.conf': 'ini', '.config': 'xml', '.env': 'dotenv',
+    '.gitignore': 'gitignore', '.proto': 'protobuf', '.graphql': 'graphql',
+    '.vue': 'vue', '.svelte': 'svelte', '.lock': 'text',
+};
+
+/* Well-known extension-less file names */
+const FILE_NAME_LANGUAGES: Record<string, string> = {
+    dockerfile: 'dockerfile',
+    makefile: 'makefile',
+    gemfile: 'ruby',
+    rakefile: 'ruby',
+    jenkinsfile: 'groovy',
+    '.gitignore': 'gitignore',
+    '.env': 'dotenv',
+};
+
+/** Language identifier for a path, or 'text' when unknown */
+export function languageForPath(path: string): string {
+    const name = (path.split('/').pop() ?? path).toLowerCase();
+
+    const byName = FILE_NAME_LANGUAGES[name];
+    if (byName) return byName;
+    if (name.startsWith('dockerfile')) return 'dockerfile';   // Dockerfile.dev
+
+    const dot = name.lastIndexOf('.');
+    if (dot === -1) return 'text';
+    return EXTENSION_LANGUAGES[name.slice(dot)] ?? 'text';
+}
@@ -0,0 +1,339 @@
+/* Small lexer shared by the PDF highlighter and the comment stripper. It
+ * only knows comments, strings, regex literals, numbers and keywords –
+ * enough to colour code on paper and to tell a real comment from a string
+ * that merely contains `//`, without shipping a full grammar engine. */
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'regex' | 'comment' | 'number';
+
+export interface Token {
+    text: string;
+    kind: TokenKind;
+}
+
+interface LanguageSpec {
+    lineComments: string[];
+    blockComments: [string, string][];
+    strings: string[];              // single-line string delimiters
+    multilineStrings: string[];     // delimiters that may span lines (checked first)
+    keywords: Set<string>;
+    caseInsensitive?: boolean;
+    regexLiterals?: boolean;        // `/…/flags` wherever an expression may start (JS)
+    commentAtWordStart?: boolean;   // line comments only start a word (`a#b` in shell)
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const C_STYLE = { lineComments: ['//'], blockComments: [['/*', '*/']] as [string, string][] };
+const HASH_STYLE = { lineComments: ['#'], blockComments: [] as [string, string][] };
+
+const JS_KEYWORDS = words(`
+    abstract as async await break case catch class const continue debugger declare default
+    delete do else enum export extends false finally for from function get if implements
+    import in instanceof interface keyof let namespace new null of private protected public
+    readonly return satisfies set static super switch this throw true try type typeof
+    undefined var void while with yield`);
+
+const SPECS: Record<string, LanguageSpec> = {
+    javascript: {
+        ...C_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: ['`'],
+        keywords: JS_KEYWORDS,
+        regexLiterals: true,
+    },
+    java: {
+        ...C_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: ['"""'],
+        keywords: words(`
+            abstract boolean break byte case catch char class const continue default do double
+            else enum extends false final finally float for if implements import instanceof int
+            interface long native new null package private protected public record return short
+            static super switch synchronized this throw throws true try var void volatile while`),
+    },
+    c: {
+        ...C_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: [],
+        keywords: words(`
+            auto bool break case catch char class const constexpr continue default delete do
+            double else enum explicit extern false float for friend goto if inline int long
+            namespace new nullptr operator private protected public register return short signed
+            sizeof static struct switch template this throw true try typedef typename union
+            unsigned using virtual void volatile while #include #define #ifdef #ifndef #endif`),
+    },
+    /* `#` comments too; PHP 8 `#[Attribute]` lines lex as comments as well
+       and are kept by the comment stripper */
+    php: {
+        lineComments: ['//', '#'],
+        blockComments: C_STYLE.blockComments,
+        strings: ['"', "'"],
+        multilineStrings: [],
+        keywords: words(`
+            abstract and array as break case catch class clone const continue declare default do
+            echo else elseif empty enum extends false final finally fn for foreach function global
+            if implements include instanceof interface isset list match namespace new null or
+            print private protected public readonly require return static switch this throw trait
+            true try unset use var while yield`),
+    },
+    csharp: {
+        ...C_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: ['"""'],
+        keywords: words(`
+            abstract as async await base bool break case catch class const continue default
+            delegate do double else enum event false finally float for foreach get if in int
+            interface internal is let long namespace new null object out override private
+            protected public readonly record ref return sealed set static string struct switch
+            this throw true try using var virtual void while yield`),
+    },
+    go: {
+        ...C_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: ['`'],
+        keywords: words(`
+            break case chan const continue default defer else fallthrough false for func go goto
+            if import interface map nil package range return select struct switch true type var`),
+    },
+    rust: {
+        ...C_STYLE,
+        strings: ['"'],
+        multilineStrings: [],
+        keywords: words(`
+            as async await break const continue crate dyn else enum extern false fn for if impl
+            in let loop match mod move mut pub ref return self Self static struct super trait
+            true type unsafe use where while`),
+    },
+    python: {
+        ...HASH_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: ['"""', "'''"],
+        keywords: words(`
+            and as assert async await break class continue def del elif else except False
+            finally for from global if import in is lambda None nonlocal not or pass raise
+            return True try while with yield self`),
+    },
+    ruby: {
+        ...HASH_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: [],
+        keywords: words(`
+            alias and begin break case class def defined? do else elsif end ensure false for if
+            in module next nil not or redo rescue retry return self super then true undef unless
+            until when while yield require attr_accessor`),
+    },
+    bash: {
+        ...HASH_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: [],
+        commentAtWordStart: true,
+        keywords: words(`
+            if then else elif fi case esac for select while until do done in function time
+            return exit export local readonly declare echo set unset source`),
+    },
+    sql: {
+        lineComments: ['--'],
+        blockComments: [['/*', '*/']],
+        strings: ["'", '"'],
+        multilineStrings: [],
+        caseInsensitive: true,
+        keywords: words(`
+            select from where and or not insert into values update set delete create table
+            alter drop index view join left right inner outer on group by order having limit
+            offset as distinct union all primary key foreign references null is in exists
+            case when then else end begin commit rollback`),
+    },
+    css: {
+        lineComments: [],
+        blockComments: [['/*', '*/']],
+        strings: ['"', "'"],
+        multilineStrings: [],
+        keywords: words('@media @import @keyframes @font-face @supports !important'),
+    },
+    scss: {
+        lineComments: ['//'],
+        blockComments: [['/*', '*/']],
+        strings: ['"', "'"],
+        multilineStrings: [],
+        commentAtWordStart: true,   // keeps an unquoted url(http://…) intact
+        keywords: words(`
+            @media @import @use @forward @mixin @include @extend @if @else @each @function
+            @return !important`),
+    },
+    markup: {
+        lineComments: [],
+        blockComments: [['<!--', '-->']],
+        strings: ['"', "'"],
+        multilineStrings: [],
+        keywords: new Set(),
+    },
+    json: {
+        lineComments: [],
+        blockComments: [],
+        strings: ['"'],
+        multilineStrings: [],
+        keywords: words('true false null'),
+    },
+    config: {
+        ...HASH_STYLE,
+        strings: ['"', "'"],
+        multilineStrings: [],
+        commentAtWordStart: true,
+        keywords: words('true false null yes no on off'),
+    },
+};
+
+/* languageForPath() identifiers → spec */
+const LANGUAGE_SPECS: Record<string, LanguageSpec> = {
+    javascript: SPECS.javascript, jsx: SPECS.javascript, typescript: SPECS.javascript,
+    tsx: SPECS.javascript, vue: SPECS.javascript, svelte: SPECS.javascript,
+    java: SPECS.java, kotlin: SPECS.java, scala: SPECS.java, groovy: SPECS.java,
+    c: SPECS.c, cpp: SPECS.c, swift: SPECS.c, php: SPECS.php, protobuf: SPECS.c,
+    csharp: SPECS.csharp, go: SPECS.go, rust: SPECS.rust,
+    python: SPECS.python, ruby: SPECS.ruby, bash: SPECS.bash, powershell: SPECS.bash,
+    dockerfile: SPECS.bash, makefile: SPECS.bash, sql: SPECS.sql,
+    css: SPECS.css, scss: SPECS.scss, sass: SPECS.scss, less: SPECS.scss,
+    html: SPECS.markup, xml: SPECS.markup, json: SPECS.json,
+    yaml: SPECS.config, toml: SPECS.config, ini: SPECS.config, dotenv: SPECS.config,
+    gitignore: SPECS.config, graphql: SPECS.config, r: SPECS.config,
+};
+
+const NUMBER = /0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/iy;
+const WORD = /[#@]?[A-Za-z_$][\w$]*[?!]?/y;
+const REGEX_FLAGS = /[a-z]*/y;
+
+/* After these a `/` starts a regex literal rather than a division. `<` is
+   left out so JSX closing tags (`</div>`) are not taken for one. */
+const REGEX_PRECEDERS = new Set('(,=:[!&|?{};+-*%>~^'.split(''));
+const REGEX_KEYWORDS = words('return typeof instanceof in of new delete void throw case do else yield await');
+
+function startsWithAny(text: string, at: number, candidates: string[]): string | undefined {
+    return candidates.find((c) => text.startsWith(c, at));
+}
+
+/* End of the regex literal opening at `from`, or -1 when it is not one */
+function regexEnd(text: string, from: number): number {
+    let inClass = false;
+    for (let j = from + 1; j < text.length; j++) {
+        const ch = text[j];
+        if (ch === '\n') return -1;
+        if (ch === '\\') j++;
+        else if (ch === '[') inClass = true;
+        else if (ch === ']') inClass = false;
+        else if (ch === '/' && !inClass) {
+            REGEX_FLAGS.lastIndex = j + 1;
+            return j + 1 + (REGEX_FLAGS.exec(text)?.[0].length ?? 0);
+        }
+    }
+    return -1;
+}
+
+/** Split `text` into tokens; unknown languages yield a single plain token */
+export function tokenize(text: string, language: string): Token[] {
+    const spec = LANGUAGE_SPECS[language];
+    const tokens: Token[] = [];
+    let prev: Token | undefined;    // last significant (non-blank, non-comment) token
+
+    const emit = (chunk: string, kind: TokenKind) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.kind === kind) last.text += chunk;
+        else tokens.push({ text: chunk, kind });
+        if (kind !== 'comment' && chunk.trim()) prev = { text: chunk.trim(), kind };
+    };
+
+    if (!spec) {
+        if (text) emit(text, 'plain');
+        return tokens;
+    }
+
+    const regexAllowed = () =>
+        !prev ||
+        (prev.kind === 'keyword' && REGEX_KEYWORDS.has(prev.text)) ||
+        (prev.kind === 'plain' && REGEX_PRECEDERS.has(prev.text[prev.text.length - 1]));
+
+    let i = 0;
+    while (i < text.length) {
+        /* Comments */
+        const block = spec.blockComments.find(([open]) => text.startsWith(open, i));
+        if (block) {
+            const close = text.indexOf(block[1], i + block[0].length);
+            const end = close === -1 ? text.length : close + block[1].length;
+            emit(text.slice(i, end), 'comment');
+            i = end;
+            continue;
+        }
+        if (
+            startsWithAny(text, i, spec.lineComments) &&
+            (!spec.commentAtWordStart || i === 0 || /[\s;|&(]/.test(text[i - 1]))
+        ) {
+            const nl = text.indexOf('\n', i);
+            const end = nl === -1 ? text.length : nl;
+            emit(text.slice(i, end), 'comment');
+            i = end;
+            continue;
+        }
+
+        /* Strings – multi-line delimiters first so """ wins over " */
+        const multi = startsWithAny(text, i, spec.multilineStrings);
+        const single = multi ? undefined : startsWithAny(text, i, spec.strings);
+        const quote = multi ?? single;
+        if (quote) {
+            let j = i + quote.length;
+            while (j < text.length && !text.startsWith(quote, j)) {
+                if (text[j] === '\\') j++;
+                else if (single && text[j] === '\n') break;
+                j++;
+            }
+            const end = Math.min(text.length, text.startsWith(quote, j) ? j + quote.length : j);
+            emit(text.slice(i, end), 'string');
+            i = end;
+            continue;
+        }
+
+        /* Regex literals, so neither /\/*x/ nor /"/ opens a comment or string */
+        if (spec.regexLiterals && text[i] === '/' && regexAllowed()) {
+            const end = regexEnd(text, i);
+            if (end !== -1) {
+                emit(text.slice(i, end), 'regex');
+                i = end;
+                continue;
+            }
+        }
+
+        /* Numbers (not inside identifiers) and words */
+        if (/[\d]/.test(text[i]) && !/[\w$]/.test(text[i - 1] ?? '')) {
+            NUMBER.lastIndex = i;
+            const m = NUMBER.exec(text);
+            if (m) {
+                emit(m[0], 'number');
+                i += m[0].length;
+                continue;
+            }
+        }
+        WORD.lastIndex = i;
+        const word = WORD.exec(text);
+        if (word) {
+            const key = spec.caseInsensitive ? word[0].toLowerCase() : word[0];
+            emit(word[0], spec.keywords.has(key) ? 'keyword' : 'plain');
+            i += word[0].length;
+            continue;
+        }
+
+        emit(text[i], 'plain');
+        i++;
+    }
+
+    return tokens;
+}
+
+/** Same as tokenize(), but split into lines (tokens never contain a newline) */
+export function tokenizeLines(text: string, language: string): Token[][] {
+    const lines: Token[][] = [[]];
+    for (const token of tokenize(text, language)) {
+        token.text.split('\n').forEach((part, idx) => {
+            if (idx > 0) lines.push([]);
+            if (part) lines[lines.length - 1].push({ text: part, kind: token.kind });
+        });
+    }
+    return lines;
+}
@@ -0,0 +1,260 @@
+/* Package manifests and the dependencies they declare, for the repository
+   summary. Only the declarations are read – nothing is resolved against a
+   lockfile or a registry. */
+
+export type ManifestKind = 'npm' | 'python' | 'go' | 'cargo';
+
+export interface Dependency {
+    name: string;
+    version: string;    // requirement as written, e.g. “^19.1.0”, “>=2.31”, “v0.3.1”
+    group: string;      // e.g. “dependencies”, “devDependencies”, “dev-dependencies”, “indirect”
+}
+
+export interface Manifest {
+    path: string;       // project path of the manifest
+    kind: ManifestKind;
+    name?: string;      // package or module name
+    version?: string;
+    dependencies: Dependency[];
+}
+
+const MANIFEST_NAMES: Record<string, ManifestKind> = {
+    'package.json': 'npm',
+    'pyproject.toml': 'python',
+    'go.mod': 'go',
+    'Cargo.toml': 'cargo',
+};
+
+export const manifestKindOf = (path: string): ManifestKind | undefined =>
+    MANIFEST_NAMES[path.slice(path.lastIndexOf('/') + 1)];
+
+/* ── package.json ────────────────────────────────────────────────────── */
+
+const NPM_GROUPS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+function parsePackageJson(text: string): Omit<Manifest, 'path' | 'kind'> {
+    const pkg = JSON.parse(text) as Record<string, unknown>;
+    const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    return {
+        name: str(pkg.name),
+        version: str(pkg.version),
+        dependencies: NPM_GROUPS.flatMap((group) => {
+            const deps = pkg[group];
+            if (!deps || typeof deps !== 'object') return [];
+            return Object.entries(deps as Record<string, unknown>).map(([name, version]) => ({
+                name,
+                version: str(version) ?? '',
+                group,
+            }));
+        }),
+    };
+}
+
+/* ── TOML (pyproject.toml, Cargo.toml) ───────────────────────────────────
+   Just enough TOML for manifests: table headers, `key = value` pairs and
+   arrays spanning several lines. Values are kept as written. */
+
+interface TomlEntry {
+    table: string;      // e.g. “project”, “tool.poetry.dependencies”
+    key: string;
+    value: string;      // raw value, comments removed
+}
+
+/* Drop a `#` comment unless it sits inside a string */
+function stripTomlComment(line: string): string {
+    let quote = '';
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#') {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}
+
+const unquote = (key: string) => key.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+/* Bracket depth outside strings; a value is complete once it is back at 0 */
+function bracketDepth(text: string): number {
+    let depth = 0;
+    let quote = '';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '[' || ch === '{') depth++;
+        else if (ch === ']' || ch === '}') depth--;
+    }
+    return depth;
+}
+
+function tomlEntries(text: string): TomlEntry[] {
+    const entries: TomlEntry[] = [];
+    let table = '';
+    let pending: { key: string; value: string } | null = null;
+
+    for (const raw of text.split(/\r?\n/)) {
+        const line = stripTomlComment(raw).trim();
+        if (pending) {
+            pending.value += ` ${line}`;
+            if (bracketDepth(pending.value) <= 0) {
+                entries.push({ table, ...pending });
+                pending = null;
+            }
+            continue;
+        }
+        if (!line) continue;
+
+        const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+        if (header) {
+            table = header[1].split('.').map(unquote).join('.');
+            continue;
+        }
+        const eq = line.indexOf('=');
+        if (eq === -1) continue;
+        const key = unquote(line.slice(0, eq));
+        const value = line.slice(eq + 1).trim();
+        if (bracketDepth(value) > 0) pending = { key, value };
+        else entries.push({ table, key, value });
+    }
+    return entries;
+}
+
+/* Every string literal of a value, e.g. the items of an array */
+const tomlStrings = (value: string): string[] =>
+    [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map((m) => m[1] ?? m[2]);
+
+const tomlString = (value: string): string | undefined =>
+    /^["']/.test(value) ? tomlStrings(value)[0] : undefined;
+
+/* `"1.0"`, `{ version = "1.0", features = […] }`, `{ path = "../x" }`, `{ workspace = true }` */
+function requirementOf(value: string): string {
+    const plain = tomlString(value);
+    if (plain !== undefined) return plain;
+    const field = (name: string) => new RegExp(`\\b${name}\\s*=\\s*("[^"]*"|'[^']*'|\\w+)`).exec(value)?.[1];
+    const version = field('version');
+    if (version) return tomlString(version) ?? version;
+    for (const source of ['path', 'git', 'url']) {
+        const location = field(source);
+        if (location) return `${source}: ${tomlString(location) ?? location}`;
+    }
+    return field('workspace') === 'true' ? 'workspace' : '';
+}
+
+/* PEP 508: “requests[socks]>=2.31; python_version < '3.12'” */
+function pep508(spec: string, group: string): Dependency {
+    const match = /^\s*([A-Za-z0-9._-]+)(\[[^\]]*\])?\s*(.*)$/.exec(spec);
+    return match
+        ? { name: match[1] + (match[2] ?? ''), version: match[3].trim(), group }
+        : { name: spec.trim(), version: '', group };
+}
+
+function parsePyproject(text: string): Omit<Manifest, 'path' | 'kind'> {
+    const manifest: Omit<Manifest, 'path' | 'kind'> = { dependencies: [] };
+    for (const { table, key, value } of tomlEntries(text)) {
+        if (table === 'project' || table === 'tool.poetry') {
+            if (key === 'name') manifest.name ??= tomlString(value);
+            else if (key === 'version') manifest.version ??= tomlString(value);
+            else if (key === 'dependencies' && table === 'project') {
+                manifest.dependencies.push(...tomlStrings(value).map((s) => pep508(s, 'dependencies')));
+            }
+        } else if (table === 'project.optional-dependencies' || table === 'dependency-groups') {
+            manifest.dependencies.push(...tomlStrings(value).map((s) => pep508(s, key)));
+        } else {
+            /* Poetry: [tool.poetry.dependencies], [tool.poetry.dev-dependencies],
+               [tool.poetry.group.<name>.dependencies] */
+            const poetry = /^tool\.poetry\.(?:group\.([^.]+)\.)?((?:dev-)?dependencies)$/.exec(table);
+            if (!poetry || key === 'python') continue;
+            const group = poetry[1] ?? poetry[2];
+            manifest.dependencies.push({ name: key, version: requirementOf(value), group });
+        }
+    }
+    return manifest;
+}
+
+function parseCargoToml(text: string): Omit<Manifest, 'path' | 'kind'> {
+    const manifest: Omit<Manifest, 'path' | 'kind'> = { dependencies: [] };
+    /* [dependencies.serde] tables: one dependency, its fields as keys */
+    const tableDeps = new Map<string, Dependency>();
+
+    for (const { table, key, value } of tomlEntries(text)) {
+        if (table === 'package') {
+            if (key === 'name') manifest.name = tomlString(value);
+            else if (key === 'version') manifest.version = tomlString(value);
+            continue;
+        }
+        /* [dependencies], [dev-dependencies], [build-dependencies],
+           [target.'cfg(…)'.dependencies], [workspace.dependencies] */
+        const section = /^(?:target\..+\.|workspace\.)?((?:dev-|build-)?dependencies)(?:\.(.+))?$/.exec(table);
+        if (!section) continue;
+        const [, group, tableName] = section;
+        if (!tableName && !key.includes('.')) {
+            manifest.dependencies.push({ name: key, version: requirementOf(value), group });
+            continue;
+        }
+        /* `serde.workspace = true` is the dotted spelling of the same table */
+        const dot = key.indexOf('.');
+        const [name, field] = tableName ? [tableName, key] : [key.slice(0, dot), key.slice(dot + 1)];
+        const id = `${group} ${name}`;
+        let dep = tableDeps.get(id);
+        if (!dep) {
+            dep = { name, version: '', group };
+            tableDeps.set(id, dep);
+            manifest.dependencies.push(dep);
+        }
+        if (!dep.version || field === 'version') dep.version = requirementOf(`{ ${field} = ${value} }`);
+    }
+    return manifest;
+}
+
+/* ── go.mod ──────────────────────────────────────────────────────────── */
+
+function parseGoMod(text: string): Omit<Manifest, 'path' | 'kind'> {
+    const manifest: Omit<Manifest, 'path' | 'kind'> = {
+        name: /^\s*module\s+(\S+)/m.exec(text)?.[1],
+        dependencies: [],
+    };
+    const requirement = (line: string) => {
+        const match = /^\s*(\S+)\s+(\S+)(.*)$/.exec(line);
+        if (!match || match[1].startsWith('//')) return;
+        const group = /\/\/\s*indirect\b/.test(match[3]) ? 'indirect' : 'require';
+        manifest.dependencies.push({ name: match[1], version: match[2], group });
+    };
+
+    let inBlock = false;
+    for (const line of text.split(/\r?\n/)) {
+        if (inBlock) {
+            if (/^\s*\)/.test(line)) inBlock = false;
+            else requirement(line);
+        } else if (/^\s*require\s*\(/.test(line)) {
+            inBlock = true;
+        } else {
+            const single = /^\s*require\s+(.*)$/.exec(line);
+            if (single) requirement(single[1]);
+        }
+    }
+    return manifest;
+}
+
+/** The manifest at `path`, or undefined when it is not one or cannot be parsed */
+export function parseManifest(path: string, text: string): Manifest | undefined {
+    const kind = manifestKindOf(path);
+    if (!kind) return undefined;
+    try {
+        const parsed =
+            kind === 'npm' ? parsePackageJson(text)
+            : kind === 'python' ? parsePyproject(text)
+            : kind === 'go' ? parseGoMod(text)
+            : parseCargoToml(text);
+        return { path, kind, ...parsed };
+    } catch {
+        return undefined;
+    }
+}
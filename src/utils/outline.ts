@@ -0,0 +1,232 @@
+import { type FileEntry } from '../types';
+import { encodingNote } from './encoding';
+import { languageForPath } from './languages';
+import { tokenize } from './lexer';
+
+/* How a selected file is exported; unselected files are simply excluded */
+export type FileMode = 'full' | 'outline';
+
+export const OUTLINE_NOTE = '[outline: bodies omitted]';
+
+const ELLIPSIS = '…';
+
+const JS_LANGUAGES = new Set(['javascript', 'jsx', 'typescript', 'tsx']);
+
+/* Words that start a block header without being a function */
+const NOT_FUNCTION = new Set([
+    'if', 'else', 'for', 'while', 'do', 'switch', 'catch', 'try', 'with',
+    'class', 'interface', 'enum', 'namespace', 'module', 'type',
+]);
+
+export const canOutline = (path: string): boolean => {
+    const language = languageForPath(path);
+    return JS_LANGUAGES.has(language) || language === 'python';
+};
+
+/** Annotation next to a file's path in the TXT, Markdown and PDF exports */
+export function fileNote(file: FileEntry): string {
+    return [encodingNote(file.encoding), file.outlined ? OUTLINE_NOTE : '']
+        .filter(Boolean)
+        .join(' ');
+}
+
+/* The source with strings, regexes and comments blanked out – same length
+   and line structure – so brackets and colons can be trusted. Also returns
+   where each string literal ends, keyed by its start offset. */
+function maskSource(text: string, language: string): { code: string; stringEnds: Map<number, number> } {
+    const parts: string[] = [];
+    const stringEnds = new Map<number, number>();
+    let offset = 0;
+
+    for (const token of tokenize(text, language)) {
+        if (token.kind === 'string') stringEnds.set(offset, offset + token.text.length);
+        parts.push(
+            token.kind === 'string' || token.kind === 'regex' || token.kind === 'comment'
+                ? token.text.replace(/[^\n]/g, ' ')
+                : token.text,
+        );
+        offset += token.text.length;
+    }
+    return { code: parts.join(''), stringEnds };
+}
+
+/* ── JavaScript / TypeScript ──────────────────────────────────────────── */
+
+/* Headers that contain these keywords declare types, not functions –
+   `class A extends Mixin(Base) {` has a parameter-list look-alike */
+const TYPE_DECLARATION = /\b(?:class|interface|enum)\b/;
+
+/* Is the return type annotation `: …` finished, or does it still expect a
+   type (`: Promise<`, `: A |`, `:`)? Arrows `=>` are not angle brackets. */
+function isCompleteType(annotation: string): boolean {
+    const t = annotation.replace(/=>/g, '→');
+    if (t.includes('=')) return false;
+    let depth = 0;
+    for (const ch of t) {
+        if ('(<[{'.includes(ch)) depth++;
+        else if (')>]}'.includes(ch)) depth--;
+    }
+    return depth === 0 && !/(?:^|[:|&,<([?→])\s*$/.test(t);
+}
+
+/* What follows each top-level `(…)` group of a header; a `)` without its
+   `(` (the header started inside the parameter list) closes a group too */
+function parenTails(header: string): string[] {
+    const tails: string[] = [];
+    let depth = 0;
+    for (let i = 0; i < header.length; i++) {
+        if (header[i] === '(') depth++;
+        else if (header[i] === ')' && --depth <= 0) {
+            depth = 0;
+            tails.push(header.slice(i + 1).trim());
+        }
+    }
+    return tails;
+}
+
+/* Does the code before a `{` make that brace open a function body? */
+function opensFunctionBody(header: string): boolean {
+    const h = header.replace(/\s+/g, ' ').trim();
+    if (h.endsWith('=>')) return true;
+    if (TYPE_DECLARATION.test(h)) return false;
+
+    const firstWord = /^[A-Za-z_$][\w$]*/.exec(h)?.[0];
+    if (firstWord && NOT_FUNCTION.has(firstWord)) return false;
+
+    /* `…(params)` optionally followed by a complete return type */
+    return parenTails(h).some((tail) => !tail || (tail.startsWith(':') && isCompleteType(tail.slice(1))));
+}
+
+/* Does a `{` here start an object type inside an unfinished return type,
+   as in `f(): Promise<{ ok: boolean }> {`? */
+function opensReturnType(header: string): boolean {
+    const h = header.replace(/\s+/g, ' ').trim();
+    return parenTails(h).some((tail) => tail.startsWith(':') && !isCompleteType(tail.slice(1)));
+}
+
+function matchingBrace(code: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < code.length; i++) {
+        if (code[i] === '{') depth++;
+        else if (code[i] === '}' && --depth === 0) return i;
+    }
+    return code.length;
+}
+
+function outlineJs(text: string, language: string): string {
+    const { code } = maskSource(text, language);
+    const out: string[] = [];
+    let copied = 0;         // text before this offset has been written
+    let headerStart = 0;    // start of the statement the next `{` belongs to
+    let parens = 0;
+
+    for (let i = 0; i < code.length; i++) {
+        const ch = code[i];
+        if (ch === '(') parens++;
+        else if (ch === ')') parens = Math.max(0, parens - 1);
+        else if (ch === '}' || (ch === ';' && parens === 0)) headerStart = i + 1;
+        else if (ch === '{') {
+            const header = code.slice(headerStart, i);
+            if (opensFunctionBody(header)) {
+                const close = matchingBrace(code, i);
+                if (code.slice(i + 1, close).trim()) {
+                    out.push(text.slice(copied, i + 1), ` ${ELLIPSIS} `);
+                    copied = close;
+                }
+                i = close - 1;      // the closing brace is handled next round
+            } else if (parens === 0 && opensReturnType(header)) {
+                i = matchingBrace(code, i);     // part of the signature
+            } else {
+                headerStart = i + 1;
+            }
+        }
+    }
+    out.push(text.slice(copied));
+    return out.join('');
+}
+
+/* ── Python ──────────────────────────────────────────────────────────── */
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+function outlinePython(text: string): string {
+    const { code, stringEnds } = maskSource(text, 'python');
+    const lines = text.split('\n');
+    const codeLines = code.split('\n');
+    const lineStarts: number[] = [];
+    lines.reduce((offset, line) => (lineStarts.push(offset), offset + line.length + 1), 0);
+
+    const out: string[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const def = /^(\s*)(?:async\s+)?def\b/.exec(codeLines[i]);
+        if (!def) {
+            out.push(lines[i++]);
+            continue;
+        }
+
+        /* The signature ends at the first `:` outside brackets */
+        let depth = 0;
+        let end = -1;
+        let colon = -1;
+        for (let j = i; j < lines.length && colon === -1; j++) {
+            for (let k = 0; k < codeLines[j].length; k++) {
+                const ch = codeLines[j][k];
+                if ('([{'.includes(ch)) depth++;
+                else if (')]}'.includes(ch)) depth--;
+                else if (ch === ':' && depth === 0) {
+                    end = j;
+                    colon = k;
+                    break;
+                }
+            }
+        }
+        if (colon === -1) {
+            out.push(...lines.slice(i));
+            break;
+        }
+
+        /* One-liner: `def f(): return 1` */
+        if (codeLines[end].slice(colon + 1).trim()) {
+            out.push(...lines.slice(i, end), `${lines[end].slice(0, colon + 1)} ${ELLIPSIS}`);
+            i = end + 1;
+            continue;
+        }
+        out.push(...lines.slice(i, end + 1));
+
+        /* The body runs while lines are blank (in code terms) or indented deeper */
+        const indent = def[1].length;
+        let bodyEnd = end + 1;
+        while (
+            bodyEnd < lines.length &&
+            (!codeLines[bodyEnd].trim() || indentOf(codeLines[bodyEnd]) > indent)
+        ) bodyEnd++;
+        while (bodyEnd > end + 1 && !codeLines[bodyEnd - 1].trim()) bodyEnd--;
+
+        /* Keep the docstring, replace everything else */
+        let first = end + 1;
+        while (first < bodyEnd && !lines[first].trim()) first++;
+        if (first < bodyEnd) {
+            const bodyIndent = lines[first].slice(0, indentOf(lines[first]));
+            const docEnd = stringEnds.get(lineStarts[first] + bodyIndent.length);
+            let rest = first;
+            if (docEnd !== undefined) {
+                while (rest < lines.length && lineStarts[rest] < docEnd) rest++;
+                out.push(...lines.slice(first, rest));
+            }
+            if (lines.slice(rest, bodyEnd).some((line) => line.trim())) {
+                out.push(`${bodyIndent}${ELLIPSIS}`);
+            }
+        }
+        i = bodyEnd;
+    }
+    return out.join('\n');
+}
+
+/** Signatures-only version of the file, or the text unchanged if its language is not supported */
+export function outlineSource(text: string, path: string): string {
+    const language = languageForPath(path);
+    if (JS_LANGUAGES.has(language)) return outlineJs(text, language);
+    if (language === 'python') return outlinePython(text);
+    return text;
+}
@@ -0,0 +1,22 @@
+interface FileLike {
+    path: string;
+    size: number;
+}
+
+/** Root folder shared by every path (the uploaded folder’s name), or '' */
+export function projectNameOf(files: FileLike[]): string {
+    const first = files[0]?.path.split('/')[0] ?? '';
+    if (!first || files.some((f) => !f.path.startsWith(`${first}/`))) return '';
+    return first;
+}
+
+/** Number of lines as an editor would show them (a trailing newline adds none) */
+export function countLines(text: string): number {
+    if (!text) return 0;
+    const breaks = text.match(/\r\n|\r|\n/g)?.length ?? 0;
+    return /(?:\r\n|\r|\n)$/.test(text) ? breaks : breaks + 1;
+}
+
+export function totalSizeOf(files: FileLike[]): number {
+    return files.reduce((sum, f) => sum + f.size, 0);
+}
@@ -0,0 +1,195 @@
+/* Credential detection & redaction applied before anything is exported.
+ *
+ * Detectors run from most to least specific; a match that overlaps an earlier
+ * finding is skipped, so a JWT inside `token = "…"` is reported once. */
+
+export type SecretDecision = 'keep' | 'redact';
+
+export interface SecretFinding {
+    id: string;         // `${path}:${start}` – stable while the file is unchanged
+    path: string;
+    kind: string;       // detector id, also used in the placeholder
+    label: string;      // human-readable detector name
+    line: number;       // 1-based
+    start: number;      // character offsets of the secret inside the decoded text
+    end: number;
+    preview: string;    // masked value, safe to render
+}
+
+interface Detector {
+    kind: string;
+    label: string;
+    pattern: RegExp;            // needs the `g` and `d` flags
+    group?: number;             // capture group holding the secret (default: whole match)
+    validate?: (value: string) => boolean;
+}
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(value: string): number {
+    const freq = new Map<string, number>();
+    for (const ch of value) freq.set(ch, (freq.get(ch) ?? 0) + 1);
+
+    let entropy = 0;
+    for (const n of freq.values()) {
+        const p = n / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/* Values such as `${DB_PASSWORD}`, `{{ token }}` or `<your-key>` are placeholders */
+const isTemplate = (value: string) => /^(?:\$\{|\{\{|<|%|\*+$)/.test(value);
+
+/* Subresource-integrity hashes in lockfiles look random but are public */
+const isIntegrityHash = (value: string) => /^sha(?:1|256|384|512)-/.test(value);
+
+const looksRandom = (value: string, minEntropy: number) =>
+    /\d/.test(value) &&
+    /[A-Za-z]/.test(value) &&
+    !isTemplate(value) &&
+    !isIntegrityHash(value) &&
+    shannonEntropy(value) >= minEntropy;
+
+const DETECTORS: Detector[] = [
+    {
+        kind: 'private-key',
+        label: 'Private key block',
+        pattern:
+            /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/dg,
+    },
+    {
+        kind: 'aws-access-key',
+        label: 'AWS access key ID',
+        pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/dg,
+    },
+    {
+        kind: 'aws-secret-key',
+        label: 'AWS secret access key',
+        pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/dgi,
+        group: 1,
+    },
+    {
+        kind: 'gcp-api-key',
+        label: 'Google API key',
+        pattern: /\bAIza[0-9A-Za-z_-]{35}\b/dg,
+    },
+    {
+        kind: 'azure-storage-key',
+        label: 'Azure storage account key',
+        pattern: /AccountKey=([A-Za-z0-9+/=]{40,})/dg,
+        group: 1,
+    },
+    {
+        kind: 'github-token',
+        label: 'GitHub token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/dg,
+    },
+    {
+        kind: 'slack-token',
+        label: 'Slack token',
+        pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/dg,
+    },
+    {
+        kind: 'stripe-key',
+        label: 'Stripe live key',
+        pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/dg,
+    },
+    {
+        kind: 'llm-api-key',
+        label: 'OpenAI / Anthropic API key',
+        pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}\b/dg,
+    },
+    {
+        kind: 'jwt',
+        label: 'JSON Web Token',
+        pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/dg,
+    },
+    {
+        kind: 'connection-string',
+        label: 'Connection string password',
+        pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"]+:([^\s@/'"]+)@/dgi,
+        group: 1,
+        validate: (value) => !isTemplate(value),
+    },
+    {
+        kind: 'generic-secret',
+        label: 'Secret assignment',
+        pattern:
+            /(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|credential)s?[a-z_-]*["']?\s*[:=]\s*["'`]?([A-Za-z0-9+/=_.~-]{12,})/dgi,
+        group: 1,
+        validate: (value) => looksRandom(value, 3.5),
+    },
+    {
+        kind: 'high-entropy',
+        label: 'High-entropy string',
+        pattern: /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/dg,
+        group: 1,
+        validate: (value) => looksRandom(value, 4.3),
+    },
+];
+
+function maskSecret(value: string): string {
+    const visible = value.length > 12 ? value.slice(0, 4) : '';
+    return `${visible}${'•'.repeat(8)} (${value.length} chars)`;
+}
+
+function lineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+function lineOf(starts: number[], offset: number): number {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= offset) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo + 1;
+}
+
+/** Find credentials in a file’s decoded text */
+export function scanForSecrets(path: string, text: string): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    const starts = lineStarts(text);
+    const overlaps = (start: number, end: number) =>
+        findings.some((f) => start < f.end && end > f.start);
+
+    for (const det of DETECTORS) {
+        for (const m of text.matchAll(det.pattern)) {
+            const [start, end] = m.indices?.[det.group ?? 0] ?? [];
+            if (start === undefined || end === undefined) continue;
+
+            const value = text.slice(start, end);
+            if (det.validate && !det.validate(value)) continue;
+            if (overlaps(start, end)) continue;
+
+            findings.push({
+                id: `${path}:${start}`,
+                path,
+                kind: det.kind,
+                label: det.label,
+                line: lineOf(starts, start),
+                start,
+                end,
+                preview: maskSecret(value),
+            });
+        }
+    }
+
+    return findings.sort((a, b) => a.start - b.start);
+}
+
+/** Replace the given findings with `[REDACTED:<kind>]` placeholders */
+export function redactSecrets(text: string, findings: SecretFinding[]): string {
+    let out = text;
+    /* Back to front so earlier offsets stay valid */
+    for (const f of [...findings].sort((a, b) => b.start - a.start)) {
+        out = `${out.slice(0, f.start)}[REDACTED:${f.kind}]${out.slice(f.end)}`;
+    }
+    return out;
+}
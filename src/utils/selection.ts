@@ -0,0 +1,53 @@
+/* The set of selected files together with the number of selected files
+ * below every folder. Toggling k files only touches their ancestors, so
+ * the tree can show folder checkboxes without rescanning the selection. */
+
+export interface Selection {
+    paths: Set<string>;
+    folderCounts: Map<string, number>;   // folder path → selected files below it
+}
+
+export const EMPTY_SELECTION: Selection = { paths: new Set(), folderCounts: new Map() };
+
+/* 'a/b/c.ts' → 'a', 'a/b' */
+function forEachFolder(path: string, visit: (folder: string) => void) {
+    for (let slash = path.indexOf('/'); slash !== -1; slash = path.indexOf('/', slash + 1)) {
+        visit(path.slice(0, slash));
+    }
+}
+
+function bump(counts: Map<string, number>, path: string, delta: number) {
+    forEachFolder(path, (folder) => {
+        const next = (counts.get(folder) ?? 0) + delta;
+        if (next) counts.set(folder, next);
+        else counts.delete(folder);
+    });
+}
+
+export function createSelection(paths: Iterable<string>): Selection {
+    const selection: Selection = { paths: new Set(paths), folderCounts: new Map() };
+    selection.paths.forEach((p) => bump(selection.folderCounts, p, 1));
+    return selection;
+}
+
+/** Select or deselect `paths`; returns a new Selection (the input is left untouched) */
+export function updateSelection(prev: Selection, paths: string[], select: boolean): Selection {
+    const changed = paths.filter((p) => prev.paths.has(p) !== select);
+    if (!changed.length) return prev;
+
+    const next: Selection = { paths: new Set(prev.paths), folderCounts: new Map(prev.folderCounts) };
+    for (const p of changed) {
+        if (select) next.paths.add(p);
+        else next.paths.delete(p);
+        bump(next.folderCounts, p, select ? 1 : -1);
+    }
+    return next;
+}
+
+/** Folder counts without `hidden` – selected files the tree does not show */
+export function withoutPaths(counts: Map<string, number>, hidden: string[]): Map<string, number> {
+    if (!hidden.length) return counts;
+    const next = new Map(counts);
+    hidden.forEach((p) => bump(next, p, -1));
+    return next;
+}
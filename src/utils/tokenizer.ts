@@ -0,0 +1,124 @@
+/* Offline token estimator.
+ *
+ * Real BPE vocabularies are several MB and would have to be shipped to the
+ * browser, so instead we mimic the pre-tokenisation step of the common
+ * encodings and estimate how many merges each chunk ends up as. The result is
+ * usually within ~10 % of the real tokenizer for source code, which is plenty
+ * for deciding whether an export fits a context window. */
+
+export type TokenEncoding = 'cl100k_base' | 'o200k_base' | 'claude' | 'gemini';
+
+interface EncodingProfile {
+    label: string;
+    /** Longest (sub-)word that is still assumed to be a single token */
+    wholeWordMax: number;
+    /** Average characters per token for words longer than `wholeWordMax` */
+    charsPerToken: number;
+    /** Average characters per token inside punctuation runs */
+    punctPerToken: number;
+    /** Max digits merged into one token */
+    digitGroup: number;
+}
+
+export const TOKEN_ENCODINGS: Record<TokenEncoding, EncodingProfile> = {
+    cl100k_base: {
+        label: 'cl100k (GPT-4, GPT-3.5)',
+        wholeWordMax: 7,
+        charsPerToken: 4,
+        punctPerToken: 2,
+        digitGroup: 3,
+    },
+    o200k_base: {
+        label: 'o200k (GPT-4o, o-series)',
+        wholeWordMax: 8,
+        charsPerToken: 4.4,
+        punctPerToken: 2.2,
+        digitGroup: 3,
+    },
+    claude: {
+        label: 'Claude (estimate)',
+        wholeWordMax: 6,
+        charsPerToken: 3.5,
+        punctPerToken: 1.8,
+        digitGroup: 1,
+    },
+    gemini: {
+        label: 'Gemini (estimate)',
+        wholeWordMax: 8,
+        charsPerToken: 4,
+        punctPerToken: 2,
+        digitGroup: 1,
+    },
+};
+
+export const DEFAULT_ENCODING: TokenEncoding = 'cl100k_base';
+
+/** Context windows offered in the UI (in tokens) */
+export const CONTEXT_WINDOWS: { label: string; tokens: number }[] = [
+    { label: '32k', tokens: 32_000 },
+    { label: '128k', tokens: 128_000 },
+    { label: '200k', tokens: 200_000 },
+    { label: '1M', tokens: 1_000_000 },
+    { label: '2M', tokens: 2_000_000 },
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/* Roughly the cl100k / o200k pre-tokenizer split:
+ * contractions | words | numbers | punctuation | whitespace */
+const PRE_TOKENIZER =
+    /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/giu;
+
+/* Sub-word boundaries inside identifiers: fooBar, HTTPServer, snake_case */
+const SUB_WORD = /\p{Lu}?\p{Ll}+|\p{Lu}+(?!\p{Ll})|\p{L}/gu;
+
+const NON_LATIN = /[^\p{Script=Latin}']/u;
+
+function countWord(piece: string, profile: EncodingProfile): number {
+    const word = piece.trimStart();
+
+    /* CJK & friends: close to one token per character */
+    if (NON_LATIN.test(word)) return word.length;
+
+    let tokens = 0;
+    for (const [sub] of word.matchAll(SUB_WORD)) {
+        tokens +=
+            sub.length <= profile.wholeWordMax
+                ? 1
+                : Math.ceil(sub.length / profile.charsPerToken);
+    }
+    return Math.max(tokens, 1);
+}
+
+/** Estimate the number of tokens `text` occupies in the given encoding */
+export function countTokens(
+    text: string,
+    encoding: TokenEncoding = DEFAULT_ENCODING,
+): number {
+    const profile = TOKEN_ENCODINGS[encoding];
+    let tokens = 0;
+
+    for (const [piece] of text.matchAll(PRE_TOKENIZER)) {
+        const first = piece.trimStart()[0] ?? ' ';
+
+        if (/\s/.test(piece[0]) && piece.trim() === '') {
+            tokens += 1;                                    // whitespace run
+        } else if (/\p{L}/u.test(first) || first === "'") {
+            tokens += countWord(piece, profile);
+        } else if (/\p{N}/u.test(first)) {
+            tokens += Math.ceil(piece.trim().length / profile.digitGroup);
+        } else {
+            tokens += Math.ceil(piece.trim().length / profile.punctPerToken);
+        }
+    }
+
+    return tokens;
+}
+
+/** Cheap size-based fallback used before a file's contents have been read */
+export function estimateTokensFromBytes(
+    bytes: number,
+    encoding: TokenEncoding = DEFAULT_ENCODING,
+): number {
+    return Math.ceil(bytes / TOKEN_ENCODINGS[encoding].charsPerToken);
+}
@@ -1,36 +1,50 @@
+import { type ExclusionReason } from '../types';
+
 export interface TreeNode {
     name: string;
     path: string;
     type: 'folder' | 'file';
     size?: number;
+    excluded?: ExclusionReason;   // files only: why it is not selected by default
     children?: TreeNode[];
 }
 
 interface FileLike {
     path: string;
     size: number;
+    excluded?: ExclusionReason;
 }
 
-/* Build a folder/file hierarchy from a flat list of relative paths */
+/* Same order as localeCompare(), but much faster on large folders */
+const collator = new Intl.Collator();
+
+/* Build a folder/file hierarchy from a flat list of relative paths. Each
+   folder keeps a name → node map while building, so every path segment is
+   a single lookup even in folders with thousands of entries. */
 export function buildTree(files: FileLike[]): TreeNode[] {
     const root: TreeNode[] = [];
+    const index = new Map<TreeNode[], Map<string, TreeNode>>([[root, new Map()]]);
 
     for (const file of files) {
         const segments = file.path.split('/');
         let currentLevel = root;
 
         segments.forEach((segment, idx) => {
-            const existing = currentLevel.find((n) => n.name === segment);
+            const level = index.get(currentLevel)!;
+            const existing = level.get(segment);
 
             if (idx === segments.length - 1) {
                 /* Leaf node (file) */
                 if (!existing) {
-                    currentLevel.push({
+                    const leaf: TreeNode = {
                         name: segment,
                         path: file.path,
                         type: 'file',
                         size: file.size,
-                    });
+                        excluded: file.excluded,
+                    };
+                    currentLevel.push(leaf);
+                    level.set(segment, leaf);
                 }
             } else {
                 /* Folder */
@@ -45,6 +59,8 @@ export function buildTree(files: FileLike[]): TreeNode[] {
                         children: [],
                     };
                     currentLevel.push(folder);
+                    level.set(segment, folder);
+                    index.set(folder.children!, new Map());
                 }
                 /* Descend */
                 currentLevel = folder.children!;
@@ -56,7 +72,7 @@ export function buildTree(files: FileLike[]): TreeNode[] {
     const sortNodes = (nodes: TreeNode[]) => {
         nodes.sort((a, b) => {
             if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
-            return a.name.localeCompare(b.name);
+            return collator.compare(a.name, b.name);
         });
         nodes.forEach((n) => n.children && sortNodes(n.children));
     };
@@ -65,8 +81,67 @@ export function buildTree(files: FileLike[]): TreeNode[] {
     return root;
 }
 
+/* One visible line of the tree, in display order */
+export interface FlatRow {
+    node: TreeNode;
+    depth: number;
+    parent: number;     // index of the parent folder's row, -1 at the top level
+}
+
+/* Depth-first list of the rows that are visible with `collapsed` folders closed */
+export function flattenTree(nodes: TreeNode[], collapsed: Set<string>): FlatRow[] {
+    const rows: FlatRow[] = [];
+    const walk = (level: TreeNode[], depth: number, parent: number) => {
+        for (const node of level) {
+            const index = rows.push({ node, depth, parent }) - 1;
+            if (node.children && !collapsed.has(node.path)) walk(node.children, depth + 1, index);
+        }
+    };
+    walk(nodes, 0, -1);
+    return rows;
+}
+
+/* Sum of `valueOf(file)` below every folder, in one pass over the tree */
+export function sumByFolder(nodes: TreeNode[], valueOf: (file: TreeNode) => number): Map<string, number> {
+    const sums = new Map<string, number>();
+    const walk = (node: TreeNode): number => {
+        if (node.type === 'file') return valueOf(node);
+        const sum = (node.children ?? []).reduce((total, child) => total + walk(child), 0);
+        sums.set(node.path, sum);
+        return sum;
+    };
+    nodes.forEach(walk);
+    return sums;
+}
+
 /* Collect all descendant file paths for bulk-select operations */
 export function collectFilePaths(node: TreeNode): string[] {
     if (node.type === 'file') return [node.path];
     return (node.children ?? []).flatMap(collectFilePaths);
-}
\ No newline at end of file
+}
+
+/* Keep only files accepted by `match` and the folders leading to them */
+export function filterTree(nodes: TreeNode[], match: (file: TreeNode) => boolean): TreeNode[] {
+    return nodes.flatMap((node): TreeNode[] => {
+        if (node.type === 'file') return match(node) ? [node] : [];
+        const children = filterTree(node.children ?? [], match);
+        return children.length ? [{ ...node, children }] : [];
+    });
+}
+
+/** Plain-text rendering of the hierarchy (├── / └── connectors) */
+export function renderAsciiTree(nodes: TreeNode[], rootName?: string): string {
+    const lines: string[] = rootName ? [`${rootName}/`] : [];
+
+    const walk = (level: TreeNode[], prefix: string) => {
+        level.forEach((node, idx) => {
+            const last = idx === level.length - 1;
+            const suffix = node.type === 'folder' ? '/' : '';
+            lines.push(`${prefix}${last ? '└── ' : '├── '}${node.name}${suffix}`);
+            if (node.children) walk(node.children, prefix + (last ? '    ' : '│   '));
+        });
+    };
+    walk(nodes, '');
+
+    return lines.join('\n');
+}
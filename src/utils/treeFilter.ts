@@ -0,0 +1,78 @@
+import { createGlobMatcher, globToRegExp } from './glob';
+
+export type FilterMode = 'fuzzy' | 'glob' | 'regex';
+
+export const FILTER_MODES: Record<FilterMode, { label: string; placeholder: string }> = {
+    fuzzy: { label: 'Fuzzy', placeholder: 'e.g. cmpbtn' },
+    glob: { label: 'Glob', placeholder: 'e.g. src/**/*.test.ts' },
+    regex: { label: 'Regex', placeholder: 'e.g. \\.(spec|test)\\.tsx?$' },
+};
+
+export interface PathFilter {
+    match?: (relPath: string) => boolean;   // undefined while the query is empty or invalid
+    error?: string;
+}
+
+/* Letters of the query appear in order, case-insensitively (“cpars” → “CodebaseParser”) */
+function fuzzyMatcher(query: string): (relPath: string) => boolean {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    return (relPath) => {
+        const hay = relPath.toLowerCase();
+        let at = 0;
+        for (const ch of needle) {
+            at = hay.indexOf(ch, at) + 1;
+            if (at === 0) return false;
+        }
+        return true;
+    };
+}
+
+/** Matcher for the tree's search box; paths are relative to the project root */
+export function createPathFilter(query: string, mode: FilterMode): PathFilter {
+    if (!query.trim()) return {};
+    try {
+        if (mode === 'fuzzy') return { match: fuzzyMatcher(query) };
+        if (mode === 'glob') {
+            /* Several patterns may be given, separated by spaces or commas outside braces */
+            const patterns = query.split(/[\s,]+(?![^{]*})/).filter(Boolean);
+            patterns.forEach(globToRegExp);
+            return { match: createGlobMatcher(patterns) };
+        }
+        const re = new RegExp(query, 'i');
+        return { match: (relPath) => re.test(relPath) };
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+/* One-click deselection of files that rarely help an LLM */
+export interface SelectionPreset {
+    label: string;
+    patterns: string[];
+}
+
+export const SELECTION_PRESETS: Record<'tests' | 'generated' | 'lockfiles', SelectionPreset> = {
+    tests: {
+        label: 'Exclude tests',
+        patterns: [
+            'test/', 'tests/', '__tests__/', 'spec/', '__mocks__/', '__snapshots__/', 'fixtures/',
+            '*.test.*', '*.spec.*', '*_test.go', 'test_*.py', '*_test.py', '*Test.java', '*Tests.cs',
+        ],
+    },
+    generated: {
+        label: 'Exclude generated/vendor',
+        patterns: [
+            'vendor/', 'third_party/', 'node_modules/', 'dist/', 'build/', 'out/', 'coverage/',
+            '.next/', 'generated/', '__generated__/',
+            '*.min.js', '*.min.css', '*.map', '*.generated.*', '*.pb.go', '*_pb2.py', '*.g.dart',
+        ],
+    },
+    lockfiles: {
+        label: 'Exclude lockfiles',
+        patterns: [
+            'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+            'Cargo.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock', 'composer.lock', 'Gemfile.lock',
+            'go.sum', 'mix.lock', 'pubspec.lock', 'flake.lock', 'packages.lock.json',
+        ],
+    },
+};
@@ -0,0 +1,118 @@
+/* Minimal ZIP writer (PKWARE APPNOTE 6.3, no ZIP64) – enough for a handful of
+   export artifacts. Entries are deflated with CompressionStream where the
+   browser supports “deflate-raw” and stored uncompressed otherwise. */
+
+export interface ZipEntry {
+    name: string;                       // path inside the archive, “/”-separated
+    data: Blob | Uint8Array | string;
+    modified?: Date;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8_NAME = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function toBytes(data: ZipEntry['data']): Promise<Uint8Array> {
+    if (typeof data === 'string') return new TextEncoder().encode(data);
+    if (data instanceof Uint8Array) return data;
+    return new Uint8Array(await data.arrayBuffer());
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array | null> {
+    if (typeof CompressionStream === 'undefined') return null;
+    try {
+        const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch {
+        return null;    // “deflate-raw” is not supported everywhere yet
+    }
+}
+
+/* MS-DOS date/time as stored in ZIP headers (2-second resolution) */
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/** Pack the entries into a single ZIP archive */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = new TextEncoder().encode(entry.name);
+        const raw = await toBytes(entry.data);
+        const deflated = await deflateRaw(raw);
+        const useDeflate = deflated !== null && deflated.length < raw.length;
+        const body = useDeflate ? deflated : raw;
+        const crc = crc32(raw);
+        const { time, date } = dosDateTime(entry.modified ?? new Date());
+
+        /* Local file header */
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);                            // version needed
+        local.setUint16(6, FLAG_UTF8_NAME, true);
+        local.setUint16(8, useDeflate ? METHOD_DEFLATE : METHOD_STORE, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, body.length, true);
+        local.setUint32(22, raw.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);                            // extra length
+
+        /* Central directory record */
+        const record = new DataView(new ArrayBuffer(46));
+        record.setUint32(0, 0x02014b50, true);
+        record.setUint16(4, 20, true);                           // version made by
+        record.setUint16(6, 20, true);                           // version needed
+        record.setUint16(8, FLAG_UTF8_NAME, true);
+        record.setUint16(10, useDeflate ? METHOD_DEFLATE : METHOD_STORE, true);
+        record.setUint16(12, time, true);
+        record.setUint16(14, date, true);
+        record.setUint32(16, crc, true);
+        record.setUint32(20, body.length, true);
+        record.setUint32(24, raw.length, true);
+        record.setUint16(28, name.length, true);
+        record.setUint32(42, offset, true);                      // local header offset
+
+        chunks.push(new Uint8Array(local.buffer), name, body);
+        central.push(new Uint8Array(record.buffer), name);
+        offset += 30 + name.length + body.length;
+    }
+
+    const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+
+    /* End of central directory */
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], {
+        type: 'application/zip',
+    });
+}
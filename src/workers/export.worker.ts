@@ -0,0 +1,27 @@
+import {
+    runExport,
+    type ExportJobRequest,
+    type ExportProgress,
+    type ExportWorkerMessage,
+} from '../services/exportPipeline';
+
+/* Progress is throttled – posting twice per file would flood the main thread */
+const PROGRESS_INTERVAL_MS = 50;
+
+const post = (message: ExportWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ExportJobRequest>) => {
+    let lastPost = 0;
+    const onProgress = (progress: ExportProgress) => {
+        const now = Date.now();
+        if (now - lastPost < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+        lastPost = now;
+        post({ type: 'progress', progress });
+    };
+
+    try {
+        post({ type: 'done', artifacts: await runExport(e.data, onProgress) });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
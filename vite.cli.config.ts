@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Node build of the headless CLI (cli/codeparse.ts → dist-cli/codeparse.js).
+// Everything is bundled so pdfmake's browser build resolves without a DOM.
+export default defineConfig({
+  build: {
+    ssr: 'cli/codeparse.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: 'codeparse.js' },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+})